@@ -0,0 +1,128 @@
+// Offline support: app shell, visited pages, Wikipedia/Wikidata API responses,
+// thumbnails and posters.
+// Bump VERSION to drop every cache from older deployments.
+const VERSION = "v3";
+const SHELL_CACHE = `shell-${VERSION}`;
+const PAGE_CACHE = `pages-${VERSION}`;
+const API_CACHE = `api-${VERSION}`;
+const IMAGE_CACHE = `images-${VERSION}`;
+
+const MAX_PAGE_ENTRIES = 50;
+const MAX_API_ENTRIES = 200;
+const MAX_IMAGE_ENTRIES = 300;
+
+// Resolved against the service worker's own URL, so this works under /wiki_plot/
+const SHELL_URLS = ["./", "manifest.webmanifest", "icon-192.png", "icon-512.png"];
+// Hashed JS and CSS of this build, written by the precache-manifest plugin in vite.config.ts
+const PRECACHE_MANIFEST = "precache-manifest.json";
+
+const buildAssets = async () => {
+  const response = await fetch(PRECACHE_MANIFEST, { cache: "no-cache" });
+  if (!response.ok) throw new Error(`${PRECACHE_MANIFEST}: HTTP ${response.status}`);
+  return response.json();
+};
+
+// The page that registered the worker isn't controlled by it yet, so its
+// scripts and styles have to be fetched here rather than on their way through
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    buildAssets()
+      .then((assets) => caches.open(SHELL_CACHE).then((cache) => cache.addAll([...SHELL_URLS, ...assets])))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  const current = [SHELL_CACHE, PAGE_CACHE, API_CACHE, IMAGE_CACHE];
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => !current.includes(key)).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Drop the oldest entries once a cache grows past its limit
+const trimCache = async (name, maxEntries) => {
+  const cache = await caches.open(name);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map((key) => cache.delete(key)));
+};
+
+// Not awaited: a full quota or any other cache error must not fail the response itself
+const saveResponse = (request, response, cacheName, maxEntries) => {
+  caches
+    .open(cacheName)
+    .then((cache) => cache.put(request, response))
+    .then(() => trimCache(cacheName, maxEntries))
+    .catch((error) => console.warn("Not cached:", request.url, error));
+};
+
+const networkFirst = async (request, cacheName, maxEntries) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) saveResponse(request, response.clone(), cacheName, maxEntries);
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Posters behind Special:FilePath are plain <img> requests, ask for them with
+// CORS so they come back cacheable, and as they are if the server refuses
+const fetchReadable = (request) =>
+  request.mode === "no-cors"
+    ? fetch(request.url, { mode: "cors", credentials: "omit" }).catch(() => fetch(request))
+    : fetch(request);
+
+const cacheFirst = async (request, cacheName, maxEntries) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetchReadable(request);
+  // Opaque responses (no-cors <img>) count as megabytes of quota each, card
+  // images are requested with CORS so they come back readable and small
+  if (response.ok) saveResponse(request, response.clone(), cacheName, maxEntries);
+  return response;
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === "navigate") {
+    // Routes never visited before fall back to the cached index page
+    event.respondWith(
+      networkFirst(request, PAGE_CACHE, MAX_PAGE_ENTRIES).catch(() =>
+        caches.match(new URL("./", self.registration.scope).href)
+      )
+    );
+    return;
+  }
+
+  if (url.pathname.endsWith("/w/api.php")) {
+    event.respondWith(networkFirst(request, API_CACHE, MAX_API_ENTRIES));
+    return;
+  }
+
+  if (
+    url.hostname === "upload.wikimedia.org" ||
+    (url.hostname === "commons.wikimedia.org" && url.pathname.startsWith("/wiki/Special:FilePath/"))
+  ) {
+    event.respondWith(cacheFirst(request, IMAGE_CACHE, MAX_IMAGE_ENTRIES));
+    return;
+  }
+
+  // Hashed build assets never change, everything else same-origin stays fresh
+  if (url.origin === self.location.origin) {
+    event.respondWith(
+      url.pathname.includes("/assets/")
+        ? cacheFirst(request, SHELL_CACHE, Infinity)
+        : networkFirst(request, SHELL_CACHE, Infinity)
+    );
+  }
+});
@@ -0,0 +1,83 @@
+// Tiny stand-in for the Wikipedia and Wikidata APIs, answering from src/fixtures.
+// Run with `npm run mock-api` and start the app with VITE_API_BACKEND=mock.
+// With RECORD=1, requests no fixture matches are fetched live and appended
+// to the host's fixture file, so new fixtures can be recorded by browsing.
+import { createServer } from "node:http";
+import { readFileSync, readdirSync, writeFileSync } from "node:fs";
+import { findFixture, narrowResponse } from "../src/utils/fixtureMatching.js";
+
+const PORT = Number(process.env.PORT) || 8787;
+const RECORD = process.env.RECORD === "1";
+const FIXTURES_DIR = new URL("../src/fixtures/", import.meta.url);
+
+// Added by the app's API client to every request, not worth recording
+const CLIENT_PARAMS = ["format", "origin", "maxlag"];
+
+const fixtureFile = (host) => new URL(`${host}.json`, FIXTURES_DIR);
+
+const fixtures = Object.fromEntries(
+  readdirSync(FIXTURES_DIR)
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => {
+      const host = file.replace(/\.json$/, "");
+      return [host, JSON.parse(readFileSync(fixtureFile(host), "utf8"))];
+    })
+);
+const uses = new Map();
+
+const record = async (host, path, params) => {
+  const response = await fetch(`https://${host}${path}?${params}`, {
+    headers: { "User-Agent": "wiki_plot mock-api recorder" },
+  });
+  const fixture = {
+    params: Object.fromEntries([...params].filter(([name]) => !CLIENT_PARAMS.includes(name))),
+    response: await response.json(),
+  };
+
+  fixtures[host] = [...(fixtures[host] || []), fixture];
+  writeFileSync(fixtureFile(host), JSON.stringify(fixtures[host], null, 2) + "\n");
+  console.log(`Recorded ${host}${path}?${params}`);
+  return fixture;
+};
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "Api-User-Agent",
+};
+
+const send = (res, status, body, headers = {}) => {
+  res.writeHead(status, { ...CORS_HEADERS, "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+};
+
+createServer(async (req, res) => {
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, CORS_HEADERS);
+    res.end();
+    return;
+  }
+
+  // /en.wikipedia.org/w/api.php?... -> host en.wikipedia.org
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  const [, host, ...rest] = url.pathname.split("/");
+  const path = `/${rest.join("/")}`;
+
+  try {
+    let fixture = findFixture(fixtures, uses, host, url.searchParams);
+    if (!fixture && RECORD) fixture = await record(host, path, url.searchParams);
+
+    if (!fixture) {
+      console.warn(`No fixture for ${host}${path}${url.search}`);
+      send(res, 200, { error: { code: "nofixture", info: `No fixture for ${url}` } });
+      return;
+    }
+
+    uses.set(fixture, (uses.get(fixture) || 0) + 1);
+    send(res, fixture.status || 200, narrowResponse(fixture.response, url.searchParams), fixture.headers);
+  } catch (error) {
+    console.error(`Failed to answer ${req.url}:`, error);
+    send(res, 502, { error: { code: "mockfailed", info: String(error) } });
+  }
+}).listen(PORT, () => {
+  console.log(`Mock API on http://localhost:${PORT}${RECORD ? ", recording new requests" : ""}`);
+});
@@ -1,14 +1,58 @@
 import { useEffect, useRef, useCallback, useState } from "react";
-import { WikiCard } from "./components/WikiCard";
-import { Loader2, X } from "lucide-react";
+import { WikiCard, type WikiArticle } from "./components/WikiCard";
+import { AlertCircle, Bookmark, CalendarDays, EyeOff, Flame, HelpCircle, Loader2, SlidersHorizontal, Sparkles, WifiOff, X } from "lucide-react";
 import { Analytics } from "@vercel/analytics/react";
 import { LanguageSelector } from "./components/LanguageSelector";
 import { useWikiArticles } from "./hooks/useWikiArticles";
+import { useSpoilerSafe } from "./hooks/useSpoilerSafe";
+import { useQuizMode } from "./hooks/useQuizMode";
+import { hasActiveFilters, useFeedFilters } from "./hooks/useFeedFilters";
+import { useFeedMode } from "./hooks/useFeedMode";
+import { useFeedSource } from "./hooks/useFeedSource";
+import { useFeedWindow } from "./hooks/useFeedWindow";
+import { useFeedKeyboard } from "./hooks/useFeedKeyboard";
+import { FilterPanel } from "./components/FilterPanel";
+import { AboutDialog } from "./components/AboutDialog";
+import { Watchlist } from "./components/Watchlist";
+import { QuizCard } from "./components/QuizCard";
+import { SearchBox } from "./components/SearchBox";
+import { FeedSourceSelector } from "./components/FeedSourceSelector";
+import { useQuizScore } from "./hooks/useQuizScore";
+import { useWatchlist } from "./hooks/useWatchlist";
+import { useLocalization } from "./hooks/useLocalization";
+import { scrollBehavior } from "./utils/motion";
+import { markSeen } from "./utils/seenHistory";
 
 function App() {
   const [showAbout, setShowAbout] = useState(false);
-  const { articles, loading, fetchArticles } = useWikiArticles();
+  const [showFilters, setShowFilters] = useState(false);
+  const [showWatchlist, setShowWatchlist] = useState(false);
+  const [jumpTo, setJumpTo] = useState<string | null>(null);
+  const {
+    articles,
+    buffer,
+    loading,
+    loadError,
+    offline,
+    fetchArticles,
+    insertArticle,
+    openFilm,
+    seed,
+    startSimilarFeed,
+    exitSimilarFeed,
+  } = useWikiArticles();
+  const { score } = useQuizScore();
+  const { spoilerSafe, setSpoilerSafe } = useSpoilerSafe();
+  const { quizMode, setQuizMode } = useQuizMode();
+  const { filters } = useFeedFilters();
+  const { mode, setMode } = useFeedMode();
+  const { films: savedFilms } = useWatchlist();
+  const { currentLanguage, t } = useLocalization();
+  const { source } = useFeedSource();
   const observerTarget = useRef(null);
+  const feedRef = useRef<HTMLDivElement>(null);
+  const { index: activeIndex, isInWindow } = useFeedWindow(feedRef);
+  useFeedKeyboard(feedRef, !showAbout && !showFilters && !showWatchlist);
 
   const handleObserver = useCallback(
     (entries: IntersectionObserverEntry[]) => {
@@ -35,8 +79,43 @@ function App() {
     fetchArticles();
   }, [fetchArticles]);
 
+  // Scroll to a film once it has been rendered into the feed, and focus it for screen readers
+  useEffect(() => {
+    if (!jumpTo) return;
+    const card = document.getElementById(`article-${jumpTo}`);
+    card?.scrollIntoView({ behavior: scrollBehavior() });
+    card?.focus({ preventScroll: true });
+    setJumpTo(null);
+  }, [jumpTo, articles]);
+
+  // Only the card in view counts as seen, later sessions skip it. Prefetched
+  // cards nobody scrolled to can still show up again
+  const activePageId = articles[activeIndex]?.pageid;
+  useEffect(() => {
+    if (activePageId) markSeen(currentLanguage, [activePageId]);
+  }, [activePageId, currentLanguage]);
+
+  // Searched films go to the top of the feed, the random stream follows
+  const handleSearchSelect = async (pageid: string) => {
+    const opened = await openFilm(pageid);
+    if (opened) setJumpTo(pageid);
+    return opened;
+  };
+
+  const getCurrentIndex = () => {
+    const feed = feedRef.current;
+    return feed ? Math.round(feed.scrollTop / feed.clientHeight) : 0;
+  };
+
+  // Continue the feed from a saved film, right after the card being viewed
+  const handleSelectSaved = (article: WikiArticle) => {
+    insertArticle(article, getCurrentIndex() + 1);
+    setJumpTo(article.pageid);
+    setShowWatchlist(false);
+  };
+
   return (
-    <div className="h-screen w-full bg-black text-white overflow-y-scroll snap-y snap-mandatory hide-scroll">
+    <div ref={feedRef} className="h-screen w-full bg-black text-white overflow-y-scroll snap-y snap-mandatory hide-scroll">
       <div className="fixed top-0 left-0 right-0 z-50 p-4">
         <div className="max-w-screen-xl mx-auto flex justify-between items-center">
           <div className="flex items-center gap-4">
@@ -50,16 +129,103 @@ function App() {
               wiki_plot
             </button>
 
-            <div className="flex items-center gap-2">
+            <SearchBox onSelect={handleSearchSelect} />
+
+            <div className="flex flex-wrap items-center gap-2">
+              <FeedSourceSelector />
+
               <button
                 onClick={() => setShowAbout(!showAbout)}
                 className="px-3 py-2 bg-white/5 hover:bg-white/10 backdrop-blur-md rounded-xl
                           text-sm font-medium text-white/90 hover:text-white transition-all duration-200
                           border border-white/5 hover:border-white/15"
               >
-                About
+                {t("about")}
+              </button>
+
+              <button
+                onClick={() => setShowWatchlist(true)}
+                className="px-3 py-2 bg-white/5 hover:bg-white/10 backdrop-blur-md rounded-xl
+                          text-sm font-medium text-white/90 hover:text-white transition-all duration-200
+                          border border-white/5 hover:border-white/15 flex items-center gap-2"
+              >
+                <Bookmark className="w-4 h-4" />
+                {t("watchlist")}
+                {savedFilms.length > 0 && (
+                  <span className="text-xs text-white/60">{savedFilms.length}</span>
+                )}
               </button>
-              
+
+              <button
+                onClick={() => setShowFilters(true)}
+                className="relative px-3 py-2 bg-white/5 hover:bg-white/10 backdrop-blur-md rounded-xl
+                          text-sm font-medium text-white/90 hover:text-white transition-all duration-200
+                          border border-white/5 hover:border-white/15 flex items-center gap-2"
+              >
+                <SlidersHorizontal className="w-4 h-4" />
+                {t("filters")}
+                {hasActiveFilters(filters) && (
+                  <span className="absolute -top-1 -end-1 w-2.5 h-2.5 rounded-full bg-blue-400" />
+                )}
+              </button>
+
+              <button
+                onClick={() => setMode(mode === "onThisDay" ? "random" : "onThisDay")}
+                aria-pressed={mode === "onThisDay"}
+                title={t("onThisDayHint")}
+                className={`px-3 py-2 backdrop-blur-md rounded-xl text-sm font-medium transition-all duration-200
+                          border flex items-center gap-2 ${
+                            mode === "onThisDay"
+                              ? "bg-white/20 border-white/30 text-white"
+                              : "bg-white/5 hover:bg-white/10 border-white/5 hover:border-white/15 text-white/90 hover:text-white"
+                          }`}
+              >
+                <CalendarDays className="w-4 h-4" />
+                {t("onThisDay")}
+              </button>
+
+              <button
+                onClick={() => setQuizMode(!quizMode)}
+                aria-pressed={quizMode}
+                title={t("quizHint")}
+                className={`px-3 py-2 backdrop-blur-md rounded-xl text-sm font-medium transition-all duration-200
+                          border flex items-center gap-2 ${
+                            quizMode
+                              ? "bg-white/20 border-white/30 text-white"
+                              : "bg-white/5 hover:bg-white/10 border-white/5 hover:border-white/15 text-white/90 hover:text-white"
+                          }`}
+              >
+                <HelpCircle className="w-4 h-4" />
+                {t("quiz")}
+              </button>
+
+              {quizMode && (
+                <div
+                  className="px-3 py-2 bg-white/5 backdrop-blur-md rounded-xl border border-white/5
+                            text-sm text-white/90 flex items-center gap-2"
+                  title={t("bestStreak", { count: score.bestStreak })}
+                >
+                  <span>{score.correct}/{score.answered}</span>
+                  <Flame className="w-4 h-4 text-orange-400" />
+                  <span>{score.streak}</span>
+                </div>
+              )}
+
+              <button
+                onClick={() => setSpoilerSafe(!spoilerSafe)}
+                aria-pressed={spoilerSafe}
+                title={t("spoilerSafeHint")}
+                className={`px-3 py-2 backdrop-blur-md rounded-xl text-sm font-medium transition-all duration-200
+                          border flex items-center gap-2 ${
+                            spoilerSafe
+                              ? "bg-white/20 border-white/30 text-white"
+                              : "bg-white/5 hover:bg-white/10 border-white/5 hover:border-white/15 text-white/90 hover:text-white"
+                          }`}
+              >
+                <EyeOff className="w-4 h-4" />
+                {t("spoilerSafe")}
+              </button>
+
               <div className="px-2 py-1 bg-white/5 hover:bg-white/10 backdrop-blur-md rounded-xl
                             border border-white/5 hover:border-white/15 transition-all duration-200">
                 <LanguageSelector />
@@ -69,69 +235,110 @@ function App() {
         </div>
       </div>
 
-      {showAbout && (
-        <div className="fixed inset-0 bg-black/90 backdrop-blur-md z-[100] flex items-center justify-center p-4">
-          <div className="bg-gray-900/95 backdrop-blur-sm border border-gray-700/50 p-8 rounded-xl max-w-md w-full relative shadow-2xl">
-            <button
-              onClick={() => setShowAbout(false)}
-              className="absolute top-4 right-4 text-white/70 hover:text-white transition-colors hover:bg-white/10 rounded-full p-2"
-              aria-label="Close about dialog"
-            >
-              <X className="w-4 h-4" />
-            </button>
-            
-            <h2 className="text-2xl font-bold mb-6 text-white">About wiki_plot</h2>
-            
-            <div className="space-y-4 text-gray-200">
-              <p className="leading-relaxed">
-                A TikTok-style interface for exploring random Wikipedia articles of movies.
-              </p>
-              
-              <div className="pt-4 border-t border-gray-700/50 space-y-2">
-                <p className="text-sm text-gray-300">
-                  Made by{" "}
-                  <a
-                    href="https://carolynruan.github.io"
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-blue-400 hover:text-blue-300 transition-colors underline"
-                  >
-                    Carolyn Ruan
-                  </a>
-                </p>
-                
-                <p className="text-sm text-gray-300">
-                  Original code from WikiTok on{" "}
-                  <a
-                    href="https://github.com/IsaacGemal/wikitok"
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-blue-400 hover:text-blue-300 transition-colors underline"
-                  >
-                    GitHub
-                  </a>
-                </p>
-              </div>
-            </div>
-          </div>
-          
-          <div 
-            className="absolute inset-0 -z-10" 
-            onClick={() => setShowAbout(false)}
-          />
+      <div role="status" aria-live="polite" className="sr-only">
+        {loadError ? t(source.loadFailed) : loading ? t("loadingMore") : ""}
+      </div>
+
+      {loadError && !loading && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 px-4 py-2 rounded-full
+                        bg-red-900/90 backdrop-blur-md border border-white/10 text-sm flex items-center gap-2">
+          <AlertCircle className="w-4 h-4" />
+          {t(source.loadFailed)}
+        </div>
+      )}
+
+      {offline && !loadError && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 px-4 py-2 rounded-full
+                        bg-gray-900/90 backdrop-blur-md border border-white/10 text-sm flex items-center gap-2">
+          <WifiOff className="w-4 h-4" />
+          {t("offline")}
+        </div>
+      )}
+
+      {mode === "onThisDay" && (
+        <div className="fixed bottom-28 left-1/2 -translate-x-1/2 z-50 max-w-[90%] ps-4 pe-2 py-1 rounded-full
+                        bg-gray-900/90 backdrop-blur-md border border-white/10 text-sm flex items-center gap-2">
+          <CalendarDays className="w-4 h-4 shrink-0" />
+          <span className="truncate">
+            {t("releasedOn", {
+              date: new Date().toLocaleDateString(currentLanguage.id, { month: "long", day: "numeric" }),
+            })}
+          </span>
+          <button
+            onClick={() => setMode("random")}
+            className="shrink-0 p-1 rounded-full hover:bg-white/10 transition-colors"
+            aria-label={t("backToRandom")}
+            title={t("backToRandom")}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {seed && (
+        <div className="fixed bottom-16 left-1/2 -translate-x-1/2 z-50 max-w-[90%] ps-4 pe-2 py-1 rounded-full
+                        bg-gray-900/90 backdrop-blur-md border border-white/10 text-sm flex items-center gap-2">
+          <Sparkles className="w-4 h-4 shrink-0" />
+          <span className="truncate">{t("moreLike", { title: seed.displaytitle })}</span>
+          <button
+            onClick={() => exitSimilarFeed(getCurrentIndex())}
+            className="shrink-0 p-1 rounded-full hover:bg-white/10 transition-colors"
+            aria-label={t("backToRandom")}
+            title={t("backToRandom")}
+          >
+            <X className="w-4 h-4" />
+          </button>
         </div>
       )}
 
-      {articles.map((article) => (
-        <WikiCard key={article.pageid} article={article} />
-      ))}
+      {showAbout && <AboutDialog onClose={() => setShowAbout(false)} />}
+
+      {showFilters && <FilterPanel onClose={() => setShowFilters(false)} />}
+
+      {showWatchlist && (
+        <Watchlist
+          onClose={() => setShowWatchlist(false)}
+          onSelectFilm={handleSelectSaved}
+        />
+      )}
+
+      <div role="feed" aria-busy={loading} aria-label={t(source.label)}>
+        {articles.map((article, index) => (
+          // aria-setsize -1: the feed never ends, so the total isn't known
+          <div
+            key={article.pageid}
+            id={`article-${article.pageid}`}
+            role="article"
+            aria-posinset={index + 1}
+            aria-setsize={-1}
+            aria-labelledby={isInWindow(index) ? `card-title-${article.pageid}` : undefined}
+            tabIndex={0}
+            className="outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-white/70"
+          >
+            {/* Far off cards are empty sections of the same height, so snapping
+                and the scroll position work as if every card were there */}
+            {!isInWindow(index) ? (
+              <section className="h-screen snap-start" aria-hidden="true" />
+            ) : quizMode ? (
+              <QuizCard article={article} pool={[...buffer, ...articles]} />
+            ) : (
+              <WikiCard
+                article={article}
+                onMoreLikeThis={(seedArticle) =>
+                  startSimilarFeed(seedArticle, articles.indexOf(seedArticle))
+                }
+              />
+            )}
+          </div>
+        ))}
+      </div>
 
       <div ref={observerTarget} className="h-10 -mt-1" />
 
       {loading && (
         <div className="h-screen w-full flex items-center justify-center gap-3">
           <Loader2 className="h-8 w-8 animate-spin text-white" />
-          <span className="text-lg">Loading more articles...</span>
+          <span className="text-lg">{t("loadingMore")}</span>
         </div>
       )}
 
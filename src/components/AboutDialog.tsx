@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { X } from "lucide-react";
+import { useFocusTrap } from "../hooks/useFocusTrap";
+import { useLocalization } from "../hooks/useLocalization";
+import { clearSeen, countSeen } from "../utils/seenHistory";
+
+interface AboutDialogProps {
+  onClose: () => void;
+}
+
+export function AboutDialog({ onClose }: AboutDialogProps) {
+  const [historyCleared, setHistoryCleared] = useState(false);
+  const { currentLanguage, t } = useLocalization();
+  const dialogRef = useFocusTrap<HTMLDivElement>(onClose);
+
+  return (
+    <div className="fixed inset-0 bg-black/90 backdrop-blur-md z-[100] flex items-center justify-center p-4">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="about-title"
+        tabIndex={-1}
+        className="bg-gray-900/95 backdrop-blur-sm border border-gray-700/50 p-8 rounded-xl max-w-md w-full relative shadow-2xl"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 end-4 text-white/70 hover:text-white transition-colors hover:bg-white/10 rounded-full p-2"
+          aria-label={t("closeAbout")}
+        >
+          <X className="w-4 h-4" />
+        </button>
+
+        <h2 id="about-title" className="text-2xl font-bold mb-6 text-white">{t("aboutTitle")}</h2>
+
+        <div className="space-y-4 text-gray-200">
+          <p className="leading-relaxed">
+            {t("aboutIntro")}
+          </p>
+
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-sm text-gray-300" aria-live="polite">
+              {historyCleared
+                ? t("historyCleared")
+                : t("seenSkipped", { count: countSeen(currentLanguage) })}
+            </p>
+            <button
+              onClick={() => {
+                clearSeen(currentLanguage);
+                setHistoryCleared(true);
+              }}
+              disabled={historyCleared}
+              className="shrink-0 px-3 py-1 rounded-lg text-sm border border-white/15 hover:bg-white/10 transition-colors disabled:opacity-50"
+            >
+              {t("resetHistory")}
+            </button>
+          </div>
+
+          <div className="pt-4 border-t border-gray-700/50 space-y-2">
+            <p className="text-sm text-gray-300">
+              {t("madeBy")}{" "}
+              <a
+                href="https://carolynruan.github.io"
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-400 hover:text-blue-300 transition-colors underline"
+              >
+                Carolyn Ruan
+              </a>
+            </p>
+
+            <p className="text-sm text-gray-300">
+              {t("originalCode")}{" "}
+              <a
+                href="https://github.com/IsaacGemal/wikitok"
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-400 hover:text-blue-300 transition-colors underline"
+              >
+                GitHub
+              </a>
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="absolute inset-0 -z-10" onClick={onClose} />
+    </div>
+  );
+}
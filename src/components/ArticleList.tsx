@@ -1,21 +1,47 @@
 import React from 'react';
+import { Trash2 } from 'lucide-react';
 import { type ArticleProps, type ArticleListProps } from '../types/ArticleProps';
+import { useLocalization } from '../hooks/useLocalization';
+
+const ArticleList: React.FC<ArticleListProps> = ({ articles, onArticleSelect, onArticleRemove }) => {
+  const { t } = useLocalization();
 
-const ArticleList: React.FC<ArticleListProps> = ({ articles, onArticleSelect }) => {
   return (
     <div className="space-y-4">
       {articles.map((article: ArticleProps) => (
         <div
           key={article.id}
-          className="p-4 border rounded cursor-pointer hover:bg-gray-50"
+          className="flex items-center gap-4 p-4 border border-white/10 rounded cursor-pointer hover:bg-white/5"
           onClick={() => onArticleSelect(article)}
         >
-          <h3 className="font-semibold">{article.title}</h3>
-          <p className="text-gray-600">{article.date}</p>
+          {article.image && (
+            <img
+              src={article.image}
+              alt={article.title}
+              loading="lazy"
+              className="w-16 h-16 shrink-0 rounded object-cover"
+            />
+          )}
+          <div className="flex-1 min-w-0">
+            <h3 className="font-semibold truncate">{article.title}</h3>
+            <p className="text-gray-400 text-sm">{article.date}</p>
+          </div>
+          {onArticleRemove && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onArticleRemove(article);
+              }}
+              className="shrink-0 p-2 rounded-full text-white/60 hover:text-white hover:bg-white/10 transition-colors"
+              aria-label={t("removeArticle", { title: article.title })}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
         </div>
       ))}
     </div>
   );
 };
 
-export default ArticleList;
\ No newline at end of file
+export default ArticleList;
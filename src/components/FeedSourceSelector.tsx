@@ -0,0 +1,29 @@
+import { Layers } from "lucide-react";
+import { FEED_SOURCES } from "../feedSources";
+import { useFeedSource } from "../hooks/useFeedSource";
+import { useLocalization } from "../hooks/useLocalization";
+
+export function FeedSourceSelector() {
+  const { source, setSource } = useFeedSource();
+  const { t } = useLocalization();
+
+  return (
+    <label className="px-3 py-2 bg-white/5 hover:bg-white/10 backdrop-blur-md rounded-xl
+                      text-sm font-medium text-white/90 hover:text-white transition-all duration-200
+                      border border-white/5 hover:border-white/15 flex items-center gap-2">
+      <Layers className="w-4 h-4" />
+      <select
+        value={source.id}
+        onChange={(e) => setSource(e.target.value)}
+        className="bg-transparent outline-none cursor-pointer"
+        aria-label={t("feed")}
+      >
+        {FEED_SOURCES.map((feedSource) => (
+          <option key={feedSource.id} value={feedSource.id} className="bg-gray-900">
+            {t(feedSource.label)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
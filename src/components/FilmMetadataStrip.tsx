@@ -0,0 +1,60 @@
+import type { FilmMetadata } from "./WikiCard";
+import { useLocalization } from "../hooks/useLocalization";
+import type { Translate } from "../messages";
+
+interface FilmMetadataStripProps {
+  metadata: FilmMetadata;
+}
+
+const formatRuntime = (t: Translate, minutes: number) =>
+  minutes >= 60
+    ? t("runtimeHours", { hours: Math.floor(minutes / 60), minutes: minutes % 60 })
+    : t("runtimeMinutes", { minutes });
+
+export function FilmMetadataStrip({ metadata }: FilmMetadataStripProps) {
+  const { t } = useLocalization();
+  const facts = [
+    metadata.releaseYear?.toString(),
+    metadata.runtime ? formatRuntime(t, metadata.runtime) : undefined,
+    ...metadata.countries,
+  ].filter(Boolean);
+
+  const people = [
+    metadata.director && t("directedBy", { name: metadata.director }),
+    metadata.cast.join(", "),
+  ].filter(Boolean);
+
+  if (facts.length === 0 && people.length === 0 && metadata.genres.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-3 space-y-1 text-sm text-white/75">
+      {facts.length > 0 && (
+        <div className="flex flex-wrap items-center justify-center gap-x-2">
+          {facts.join(" · ")}
+          {metadata.imdbId && (
+            <a
+              href={`https://www.imdb.com/title/${metadata.imdbId}/`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="px-1.5 rounded bg-yellow-400 text-black text-xs font-bold hover:bg-yellow-300"
+            >
+              IMDb
+            </a>
+          )}
+        </div>
+      )}
+      {people.length > 0 && <div className="line-clamp-1">{people.join(" · ")}</div>}
+      {metadata.genres.length > 0 && (
+        <div className="flex flex-wrap justify-center gap-1">
+          {metadata.genres.map((genre) => (
+            <span key={genre} className="px-2 py-0.5 rounded-full bg-white/10 text-xs">
+              {genre}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { X } from "lucide-react";
+import {
+  COUNTRIES,
+  DEFAULT_FILTERS,
+  FORMATS,
+  GENRES,
+  getDecades,
+  type FeedFilters,
+} from "../filters";
+import { useFeedFilters } from "../hooks/useFeedFilters";
+import { useFeedSource } from "../hooks/useFeedSource";
+import { useLocalization } from "../hooks/useLocalization";
+
+interface FilterPanelProps {
+  onClose: () => void;
+}
+
+const chipClass = (selected: boolean) =>
+  `px-3 py-1 rounded-full text-sm border transition-colors ${
+    selected
+      ? "bg-white text-black border-white"
+      : "bg-white/5 text-white/80 border-white/10 hover:bg-white/10"
+  }`;
+
+const toggle = (list: string[], id: string) =>
+  list.includes(id) ? list.filter((item) => item !== id) : [...list, id];
+
+export function FilterPanel({ onClose }: FilterPanelProps) {
+  const { filters, applyFilters } = useFeedFilters();
+  const [draft, setDraft] = useState<FeedFilters>(filters);
+  const { source } = useFeedSource();
+  const { t } = useLocalization();
+  const decades = getDecades();
+
+  const update = (changes: Partial<FeedFilters>) =>
+    setDraft((prev) => ({ ...prev, ...changes }));
+
+  return (
+    <div className="fixed inset-0 bg-black/90 backdrop-blur-md z-[100] flex items-center justify-center p-4">
+      <div className="bg-gray-900/95 backdrop-blur-sm border border-gray-700/50 p-8 rounded-xl max-w-lg w-full max-h-full overflow-y-auto relative shadow-2xl">
+        <button
+          onClick={onClose}
+          className="absolute top-4 end-4 text-white/70 hover:text-white transition-colors hover:bg-white/10 rounded-full p-2"
+          aria-label={t("closeFilters")}
+        >
+          <X className="w-4 h-4" />
+        </button>
+
+        <h2 className="text-2xl font-bold mb-6 text-white">{t("filters")}</h2>
+
+        <div className="space-y-6 text-gray-200">
+          <section>
+            <h3 className="text-sm font-semibold text-white/70 mb-2">{t("decades")}</h3>
+            <div className="flex items-center gap-3">
+              <select
+                value={draft.decadeFrom ?? ""}
+                onChange={(e) => update({ decadeFrom: e.target.value ? Number(e.target.value) : null })}
+                className="bg-gray-800 rounded-md px-2 py-1 text-sm"
+                aria-label={t("fromDecade")}
+              >
+                <option value="">{t("any")}</option>
+                {decades.map((decade) => (
+                  <option key={decade} value={decade}>{t("decade", { decade })}</option>
+                ))}
+              </select>
+              <span className="text-white/50">{t("decadeTo")}</span>
+              <select
+                value={draft.decadeTo ?? ""}
+                onChange={(e) => update({ decadeTo: e.target.value ? Number(e.target.value) : null })}
+                className="bg-gray-800 rounded-md px-2 py-1 text-sm"
+                aria-label={t("toDecade")}
+              >
+                <option value="">{t("any")}</option>
+                {decades.map((decade) => (
+                  <option key={decade} value={decade}>{t("decade", { decade })}</option>
+                ))}
+              </select>
+            </div>
+          </section>
+
+          {!source.filmFilters && (
+            <p className="text-sm text-white/60">
+              {t("decadeOnly", { source: t(source.label) })}
+            </p>
+          )}
+
+          {source.filmFilters && (
+            <>
+              <section>
+                <h3 className="text-sm font-semibold text-white/70 mb-2">{t("format")}</h3>
+                <div className="flex flex-wrap gap-2">
+                  {FORMATS.map((format) => (
+                    <button
+                      key={format.id}
+                      onClick={() => update({ format: format.id })}
+                      className={chipClass(draft.format === format.id)}
+                      aria-pressed={draft.format === format.id}
+                    >
+                      {t(format.label)}
+                    </button>
+                  ))}
+                </div>
+              </section>
+
+              <section>
+                <h3 className="text-sm font-semibold text-white/70 mb-2">{t("genres")}</h3>
+                <div className="flex flex-wrap gap-2">
+                  {GENRES.map((genre) => (
+                    <button
+                      key={genre.id}
+                      onClick={() => update({ genres: toggle(draft.genres, genre.id) })}
+                      className={chipClass(draft.genres.includes(genre.id))}
+                      aria-pressed={draft.genres.includes(genre.id)}
+                    >
+                      {t(genre.label)}
+                    </button>
+                  ))}
+                </div>
+              </section>
+
+              <section>
+                <h3 className="text-sm font-semibold text-white/70 mb-2">{t("country")}</h3>
+                <div className="flex flex-wrap gap-2">
+                  {COUNTRIES.map((country) => (
+                    <button
+                      key={country.id}
+                      onClick={() => update({ countries: toggle(draft.countries, country.id) })}
+                      className={chipClass(draft.countries.includes(country.id))}
+                      aria-pressed={draft.countries.includes(country.id)}
+                    >
+                      {t(country.label)}
+                    </button>
+                  ))}
+                </div>
+              </section>
+            </>
+          )}
+
+          <div className="pt-4 border-t border-gray-700/50 flex justify-end gap-3">
+            <button
+              onClick={() => setDraft(DEFAULT_FILTERS)}
+              className="px-4 py-2 rounded-xl text-sm text-white/80 hover:text-white hover:bg-white/10 transition-colors"
+            >
+              {t("reset")}
+            </button>
+            <button
+              onClick={() => {
+                applyFilters(draft);
+                onClose();
+              }}
+              className="px-4 py-2 rounded-xl text-sm font-medium bg-white text-black hover:bg-white/90 transition-colors"
+            >
+              {t("apply")}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div
+        className="absolute inset-0 -z-10"
+        onClick={onClose}
+      />
+    </div>
+  );
+}
@@ -1,50 +1,172 @@
-import { useState, useEffect, useRef } from "react";
-import { LANGUAGES } from "../languages";
+import { useState, useEffect, useRef, type KeyboardEvent } from "react";
+import { Check, Search } from "lucide-react";
+import { LANGUAGES, getDirection, type Language } from "../languages";
 import { useLocalization } from "../hooks/useLocalization";
+import { getRecentLanguages } from "../utils/languagePreferences";
+
+// Copied, sorting LANGUAGES in place would reorder it for everyone else
+const SORTED_LANGUAGES = [...LANGUAGES].sort((a, b) => a.englishName.localeCompare(b.englishName));
+
+// Case and accent insensitive, so "espanol" finds "Español"
+const normalize = (text: string) =>
+  text.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase();
+
+const matches = (language: Language, query: string) => {
+  const needle = normalize(query.trim());
+  return [language.name, language.englishName, language.id].some((text) =>
+    normalize(text).includes(needle)
+  );
+};
 
 export function LanguageSelector() {
   const [showDropdown, setShowDropdown] = useState(false);
-  const { setLanguage } = useLocalization();
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  // Read when the picker opens, switching languages updates them
+  const [recent, setRecent] = useState<Language[]>([]);
+  const { currentLanguage, setLanguage, t } = useLocalization();
   const dropdownRef = useRef<HTMLDivElement>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
 
-  const handleClickOutside = (event: MouseEvent) => {
-    if (
-      dropdownRef.current &&
-      !dropdownRef.current.contains(event.target as Node)
-    ) {
-      setShowDropdown(false);
-    }
-  };
+  const recentIds = new Set(recent.map((language) => language.id));
+  const options = [
+    ...recent,
+    ...SORTED_LANGUAGES.filter((language) => !recentIds.has(language.id)),
+  ].filter((language) => matches(language, query));
+  const recentShown = options.filter((language) => recentIds.has(language.id)).length;
 
   useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (
+        dropdownRef.current &&
+        !dropdownRef.current.contains(event.target as Node)
+      ) {
+        setShowDropdown(false);
+      }
+    };
     document.addEventListener("mousedown", handleClickOutside);
     return () => {
       document.removeEventListener("mousedown", handleClickOutside);
     };
   }, []);
 
+  // Keep the highlighted language visible while arrowing through the list
+  useEffect(() => {
+    listRef.current?.children[activeIndex]?.scrollIntoView?.({ block: "nearest" });
+  }, [activeIndex]);
+
+  const open = () => {
+    setRecent(getRecentLanguages());
+    setQuery("");
+    setActiveIndex(0);
+    setShowDropdown(true);
+  };
+
+  const close = () => {
+    setShowDropdown(false);
+    buttonRef.current?.focus();
+  };
+
+  const choose = (language: Language) => {
+    setLanguage(language.id);
+    close();
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown") {
+      event.preventDefault();
+      setActiveIndex((index) => Math.min(index + 1, options.length - 1));
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault();
+      setActiveIndex((index) => Math.max(index - 1, 0));
+    } else if (event.key === "Enter" && options.length > 0) {
+      event.preventDefault();
+      choose(options[activeIndex]);
+    } else if (event.key === "Escape") {
+      // Don't let the dialog or feed handlers see it as well
+      event.stopPropagation();
+      close();
+    }
+  };
+
   return (
-    <div
-      className="relative inline-flex items-center"
-      onClick={() => setShowDropdown(!showDropdown)}
-      ref={dropdownRef}
-    >
-      <button className="text-sm text-white/70 hover:text-white transition-colors">
-        Language
+    <div className="relative inline-flex items-center" ref={dropdownRef}>
+      <button
+        ref={buttonRef}
+        onClick={() => (showDropdown ? setShowDropdown(false) : open())}
+        aria-haspopup="listbox"
+        aria-expanded={showDropdown}
+        className="text-sm text-white/70 hover:text-white transition-colors"
+      >
+        {t("language")}
       </button>
 
       {showDropdown && (
-        <div className="absolute overflow-y-auto max-h-[205px] py-2 w-40 right-0 top-full mt-1 bg-gray-900 rounded-md shadow-lg">
-          {LANGUAGES.sort((a,b) => a.id.localeCompare(b.id)).map((language) => (
-            <button
-              key={language.id}
-              onClick={() => setLanguage(language.id)}
-              className="w-full items-center flex gap-3 px-3 py-1 hover:bg-gray-800"
+        <div className="absolute w-60 end-0 top-full mt-1 bg-gray-900 rounded-md shadow-lg">
+          <div className="flex items-center gap-2 px-3 py-2 border-b border-white/10">
+            <Search className="w-4 h-4 shrink-0 text-white/50" />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => {
+                setQuery(e.target.value);
+                setActiveIndex(0);
+              }}
+              onKeyDown={handleKeyDown}
+              placeholder={t("searchLanguages")}
+              aria-label={t("searchLanguages")}
+              aria-controls="language-options"
+              aria-activedescendant={
+                options[activeIndex] ? `language-option-${options[activeIndex].id}` : undefined
+              }
+              aria-expanded
+              role="combobox"
+              autoFocus
+              className="w-full bg-transparent text-sm text-white placeholder-white/50 outline-none"
+            />
+          </div>
+
+          {options.length === 0 ? (
+            <p className="px-3 py-2 text-xs text-white/60">{t("noLanguages")}</p>
+          ) : (
+            <ul
+              ref={listRef}
+              id="language-options"
+              role="listbox"
+              aria-label={t("language")}
+              className="overflow-y-auto max-h-64 py-1"
             >
-              <img className="w-5" src={language.flag} alt={language.name} />
-              <span className="text-xs">{language.name}</span>
-            </button>
-          ))}
+              {options.map((language, index) => (
+                <li
+                  key={language.id}
+                  id={`language-option-${language.id}`}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  onClick={() => choose(language)}
+                  onMouseMove={() => setActiveIndex(index)}
+                  className={`flex items-center gap-3 px-3 py-1.5 cursor-pointer ${
+                    index === activeIndex ? "bg-gray-800" : ""
+                  } ${
+                    index === recentShown - 1 && recentShown < options.length
+                      ? "border-b border-white/10"
+                      : ""
+                  }`}
+                >
+                  <img className="w-5 shrink-0" src={language.flag} alt="" />
+                  <span className="min-w-0 flex-1">
+                    <span className="block truncate text-xs" lang={language.id} dir={getDirection(language)}>
+                      {language.name}
+                    </span>
+                    <span className="block truncate text-[11px] text-white/50">
+                      {language.englishName}
+                    </span>
+                  </span>
+                  {language.id === currentLanguage.id && <Check className="w-4 h-4 shrink-0" />}
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       )}
     </div>
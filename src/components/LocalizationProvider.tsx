@@ -0,0 +1,48 @@
+import { useState, useEffect, useMemo, type ReactNode } from "react";
+import { LANGUAGES, getDirection } from "../languages";
+import { translate, type Translate } from "../messages";
+import { LocalizationContext, getInitialLanguage } from "../hooks/useLocalization";
+import { parseFilmRoute } from "../utils/routes";
+import { addRecentLanguage } from "../utils/languagePreferences";
+
+export function LocalizationProvider({ children }: { children: ReactNode }) {
+  const [currentLanguage, setCurrentLanguage] = useState(getInitialLanguage);
+
+  useEffect(() => {
+    localStorage.setItem("lang", currentLanguage.id);
+    addRecentLanguage(currentLanguage);
+    // Interface and feed both follow the language, including its direction
+    document.documentElement.lang = currentLanguage.id;
+    document.documentElement.dir = getDirection(currentLanguage);
+  }, [currentLanguage]);
+
+  const localization = useMemo(() => {
+    const setLanguage = (languageId: string) => {
+      const newLanguage = LANGUAGES.find((lang) => lang.id === languageId);
+      if (!newLanguage) {
+        console.warn(`Language not found: ${languageId}`);
+        return;
+      }
+
+      // A film link points into the old language's wiki, so drop it
+      if (parseFilmRoute()) {
+        window.history.replaceState(
+          window.history.state,
+          "",
+          import.meta.env.BASE_URL + window.location.search
+        );
+      }
+      setCurrentLanguage(newLanguage);
+    };
+
+    const t: Translate = (key, params) => translate(currentLanguage.id, key, params);
+
+    return { currentLanguage, setLanguage, t };
+  }, [currentLanguage]);
+
+  return (
+    <LocalizationContext.Provider value={localization}>
+      {children}
+    </LocalizationContext.Provider>
+  );
+}
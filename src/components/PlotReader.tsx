@@ -0,0 +1,115 @@
+import { useEffect, useId, useRef } from "react";
+import { Eye, Loader2, X } from "lucide-react";
+import { usePlot } from "../hooks/usePlot";
+import { useLocalization } from "../hooks/useLocalization";
+import { splitPlot } from "../utils/plot";
+import type { WikiArticle } from "./WikiCard";
+
+interface PlotReaderProps {
+  article: WikiArticle;
+  onClose: () => void;
+  // Hide the ending until the reader asks for it
+  spoilerSafe: boolean;
+  revealed: boolean;
+  onReveal: () => void;
+}
+
+export function PlotReader({
+  article,
+  onClose,
+  spoilerSafe,
+  revealed,
+  onReveal,
+}: PlotReaderProps) {
+  const { plot, loading, error } = usePlot(article);
+  const { t } = useLocalization();
+  const titleId = useId();
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Focus the text so the arrow keys scroll the plot rather than the feed
+  useEffect(() => {
+    scrollRef.current?.focus({ preventScroll: true });
+  }, []);
+  const parts = plot && spoilerSafe && !revealed
+    ? splitPlot(plot.paragraphs)
+    : { premise: plot?.paragraphs || [], resolution: [] };
+
+  return (
+    <div
+      role="dialog"
+      aria-labelledby={titleId}
+      className="absolute inset-0 z-20 flex flex-col bg-black/85 backdrop-blur-md p-6"
+    >
+      <div className="flex items-start justify-between gap-3 mb-4">
+        <div>
+          <h2 id={titleId} className="text-2xl font-bold">{article.displaytitle}</h2>
+          {plot?.section && (
+            <p className="text-sm text-white/60">{plot.section}</p>
+          )}
+        </div>
+        <button
+          onClick={onClose}
+          className="shrink-0 p-2 rounded-full bg-white/10 hover:bg-white/20 transition-colors"
+          aria-label={t("closePlot")}
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div
+        ref={scrollRef}
+        tabIndex={0}
+        className="flex-1 overflow-y-auto outline-none overscroll-contain space-y-4 pe-2 text-gray-100/95 leading-relaxed"
+      >
+        {loading && (
+          <div className="h-full flex items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-white" />
+          </div>
+        )}
+
+        {!loading && error && (
+          <p className="text-white/70">{t("plotFailed")}</p>
+        )}
+
+        {!loading && plot && (
+          <>
+            {!plot.section && (
+              <p className="text-sm text-white/60 italic">
+                {t("noPlotSection")}
+              </p>
+            )}
+            {parts.premise.map((paragraph, index) => (
+              <p key={index}>{paragraph}</p>
+            ))}
+            {parts.resolution.length > 0 && (
+              <div className="relative">
+                <div className="space-y-4 blur-md select-none" aria-hidden="true">
+                  {parts.resolution.map((paragraph, index) => (
+                    <p key={index}>{paragraph}</p>
+                  ))}
+                </div>
+                <button
+                  onClick={onReveal}
+                  className="absolute inset-0 flex items-start justify-center pt-6"
+                >
+                  <span className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-black/70 border border-white/15 hover:bg-black/80 transition-colors">
+                    <Eye className="w-4 h-4" />
+                    {t("revealEnding")}
+                  </span>
+                </button>
+              </div>
+            )}
+            <a
+              href={article.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-block hover:text-gray-200"
+            >
+              {t("readMore")} <span className="inline-block rtl:-scale-x-100">→</span>
+            </a>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
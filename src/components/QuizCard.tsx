@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { Check, HelpCircle, X } from "lucide-react";
+import { WikiCard, type WikiArticle } from "./WikiCard";
+import { useQuizScore } from "../hooks/useQuizScore";
+import { useLocalization } from "../hooks/useLocalization";
+import { maskTitle, pickChoices, stripDisambiguation } from "../utils/quiz";
+
+interface QuizCardProps {
+  article: WikiArticle;
+  // Other films to draw the wrong answers from
+  pool: WikiArticle[];
+}
+
+// Choices and answers by "<language>:<page id>", page ids are only unique
+// within one wiki. Kept while the feed unmounts far off cards
+const pastChoices = new Map<string, WikiArticle[]>();
+const pastAnswers = new Map<string, string>();
+// Far more cards than anyone scrolls back through, the oldest are forgotten first
+const MAX_PAST_CARDS = 200;
+
+// Maps iterate in insertion order, so the first key is the oldest
+const remember = <T,>(past: Map<string, T>, key: string, value: T) => {
+  past.set(key, value);
+  if (past.size > MAX_PAST_CARDS) past.delete(past.keys().next().value!);
+};
+
+export function QuizCard({ article, pool }: QuizCardProps) {
+  const { currentLanguage, t } = useLocalization();
+  const cardKey = `${currentLanguage.id}:${article.pageid}`;
+  // Fixed the first time the card mounts so the options don't shuffle while answering
+  const [choices] = useState(() => {
+    if (!pastChoices.has(cardKey)) {
+      remember(pastChoices, cardKey, pickChoices(article, pool));
+    }
+    return pastChoices.get(cardKey)!;
+  });
+  const [answer, setAnswer] = useState(() => pastAnswers.get(cardKey) ?? null);
+  // Only animate the reveal right after answering, not when scrolling back to it
+  const [answeredBefore] = useState(answer !== null);
+  const { recordAnswer } = useQuizScore();
+
+  const handleAnswer = (pageid: string) => {
+    if (answer) return;
+    remember(pastAnswers, cardKey, pageid);
+    setAnswer(pageid);
+    recordAnswer(pageid === article.pageid);
+  };
+
+  if (answer) {
+    const isCorrect = answer === article.pageid;
+    return (
+      <div className={`relative ${answeredBefore ? "" : "quiz-reveal"}`}>
+        <WikiCard article={article} />
+        <div
+          className={`absolute top-20 left-1/2 -translate-x-1/2 z-30 px-4 py-2 rounded-full
+                      flex items-center gap-2 text-sm font-medium shadow-lg ${
+                        isCorrect ? "bg-green-500/90" : "bg-red-500/90"
+                      }`}
+        >
+          {isCorrect ? <Check className="w-4 h-4" /> : <X className="w-4 h-4" />}
+          {isCorrect ? t("correct") : t("notQuite")}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <section className="h-screen snap-start">
+      <div className="article-container bg-gradient-to-b from-gray-900 to-black">
+        <div className="absolute inset-0 z-10 flex items-center justify-center p-6">
+          <div className="article-content max-w-[90%] md:max-w-[75%]">
+            <div className="flex items-center justify-center gap-2 mb-3 text-white/70">
+              <HelpCircle className="w-5 h-5" />
+              <h2 id={`card-title-${article.pageid}`} className="text-xl font-bold">{t("whichFilm")}</h2>
+            </div>
+
+            <p className="text-gray-100/95 mb-4 line-clamp-6">
+              {maskTitle(maskTitle(article.extract, article.title), article.displaytitle)}
+            </p>
+
+            <div className="grid gap-2">
+              {choices.map((choice) => (
+                <button
+                  key={choice.pageid}
+                  onClick={() => handleAnswer(choice.pageid)}
+                  className="px-4 py-2 rounded-xl bg-white/10 hover:bg-white/20 border border-white/10
+                            transition-colors text-start"
+                >
+                  {stripDisambiguation(choice.displaytitle)}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+}
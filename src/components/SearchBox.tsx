@@ -0,0 +1,162 @@
+import { useState, useEffect, useRef, type KeyboardEvent } from "react";
+import { Film, Loader2, Search } from "lucide-react";
+import { useLocalization } from "../hooks/useLocalization";
+import { useFeedSource } from "../hooks/useFeedSource";
+import { searchFilms, type FilmSuggestion } from "../utils/search";
+
+interface SearchBoxProps {
+  onSelect: (pageid: string) => Promise<boolean>;
+}
+
+const DEBOUNCE_MS = 300;
+
+export function SearchBox({ onSelect }: SearchBoxProps) {
+  const [query, setQuery] = useState("");
+  const [suggestions, setSuggestions] = useState<FilmSuggestion[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [notFound, setNotFound] = useState(false);
+  const { currentLanguage, t } = useLocalization();
+  const { source } = useFeedSource();
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < 2) {
+      setSuggestions([]);
+      setSearching(false);
+      return;
+    }
+
+    // Cancel searches for queries the user has already typed past
+    const controller = new AbortController();
+    const { signal } = controller;
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const results = await searchFilms(currentLanguage, source, trimmed, { signal });
+        if (!signal.aborted) {
+          setSuggestions(results);
+          setActiveIndex(-1);
+        }
+      } catch (error) {
+        if (!signal.aborted) console.error("Film search failed:", error);
+      } finally {
+        if (!signal.aborted) setSearching(false);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+  }, [query, currentLanguage, source]);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (
+        containerRef.current &&
+        !containerRef.current.contains(event.target as Node)
+      ) {
+        setShowSuggestions(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, []);
+
+  const handleSelect = async (suggestion: FilmSuggestion) => {
+    setShowSuggestions(false);
+    setQuery("");
+    setSuggestions([]);
+    setNotFound(!(await onSelect(suggestion.pageid)));
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown") {
+      event.preventDefault();
+      setActiveIndex((index) => Math.min(index + 1, suggestions.length - 1));
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault();
+      setActiveIndex((index) => Math.max(index - 1, 0));
+    } else if (event.key === "Enter" && suggestions.length > 0) {
+      handleSelect(suggestions[Math.max(activeIndex, 0)]);
+    } else if (event.key === "Escape") {
+      setShowSuggestions(false);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <div className="flex items-center gap-2 px-3 py-2 bg-white/5 backdrop-blur-md rounded-xl
+                      border border-white/5 focus-within:border-white/20 transition-all duration-200">
+        {searching ? (
+          <Loader2 className="w-4 h-4 animate-spin text-white/70" />
+        ) : (
+          <Search className="w-4 h-4 text-white/70" />
+        )}
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setShowSuggestions(true);
+            setNotFound(false);
+          }}
+          onFocus={() => setShowSuggestions(true)}
+          onKeyDown={handleKeyDown}
+          placeholder={t("searchTitles")}
+          aria-label={t("searchSource", { source: t(source.label) })}
+          aria-expanded={showSuggestions && suggestions.length > 0}
+          aria-controls="film-search-suggestions"
+          role="combobox"
+          className="w-32 sm:w-48 bg-transparent text-sm text-white placeholder-white/50 outline-none"
+        />
+      </div>
+
+      {notFound && (
+        <p className="absolute top-full mt-1 text-xs text-white/70">{t("openFailed")}</p>
+      )}
+
+      {showSuggestions && suggestions.length > 0 && (
+        <ul
+          id="film-search-suggestions"
+          role="listbox"
+          className="absolute start-0 top-full mt-1 w-72 max-h-80 overflow-y-auto py-2 bg-gray-900 rounded-md shadow-lg"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li key={suggestion.pageid} role="option" aria-selected={index === activeIndex}>
+              <button
+                onClick={() => handleSelect(suggestion)}
+                className={`w-full flex items-center gap-3 px-3 py-2 text-start hover:bg-gray-800 ${
+                  index === activeIndex ? "bg-gray-800" : ""
+                }`}
+              >
+                {suggestion.thumbnail ? (
+                  <img
+                    src={suggestion.thumbnail}
+                    alt=""
+                    className="w-8 h-12 shrink-0 rounded object-cover"
+                  />
+                ) : (
+                  <div className="w-8 h-12 shrink-0 rounded bg-gray-800 flex items-center justify-center">
+                    <Film className="w-4 h-4 text-white/40" />
+                  </div>
+                )}
+                <div className="min-w-0">
+                  <p className="text-sm truncate">{suggestion.displaytitle}</p>
+                  {suggestion.description && (
+                    <p className="text-xs text-white/50 truncate">{suggestion.description}</p>
+                  )}
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState, useEffect, useRef } from "react";
+import { Check, Columns2, Languages, Loader2 } from "lucide-react";
+import { useLocalization } from "../hooks/useLocalization";
+import { getDirection } from "../languages";
+import { fetchLanguageLinks, type LanguageLink } from "../utils/langlinks";
+
+interface TranslationMenuProps {
+  pageid: string;
+  selected: LanguageLink | null;
+  onSelect: (link: LanguageLink | null) => void;
+  sideBySide: boolean;
+  onSideBySideChange: (sideBySide: boolean) => void;
+}
+
+export function TranslationMenu({
+  pageid,
+  selected,
+  onSelect,
+  sideBySide,
+  onSideBySideChange,
+}: TranslationMenuProps) {
+  const [open, setOpen] = useState(false);
+  // Only looked up once the menu is first opened
+  const [links, setLinks] = useState<LanguageLink[] | null>(null);
+  const [failed, setFailed] = useState(false);
+  const { currentLanguage, t } = useLocalization();
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open || links) return;
+
+    const controller = new AbortController();
+    const { signal } = controller;
+    setFailed(false);
+    fetchLanguageLinks(currentLanguage, pageid, { signal })
+      .then((result) => {
+        if (!signal.aborted) setLinks(result);
+      })
+      .catch((error) => {
+        if (signal.aborted) return;
+        console.error(`Error fetching language links for ${pageid}:`, error);
+        setFailed(true);
+      });
+
+    return () => controller.abort();
+  }, [open, links, currentLanguage, pageid]);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, []);
+
+  const choose = (link: LanguageLink | null) => {
+    onSelect(link);
+    setOpen(false);
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`p-2 rounded-full transition-colors ${
+          selected ? "bg-white/25 hover:bg-white/30" : "bg-white/10 hover:bg-white/20"
+        }`}
+        aria-label={t("readInAnotherLanguage")}
+        aria-expanded={open}
+      >
+        <Languages className="w-5 h-5" />
+      </button>
+
+      {open && (
+        <div className="absolute end-0 top-full mt-1 w-52 z-30 py-2 bg-gray-900 rounded-md shadow-lg text-sm">
+          <button
+            onClick={() => onSideBySideChange(!sideBySide)}
+            aria-pressed={sideBySide}
+            className="w-full flex items-center gap-2 px-3 py-1.5 hover:bg-gray-800"
+          >
+            <Columns2 className="w-4 h-4" />
+            <span className="flex-1 text-start">{t("sideBySide")}</span>
+            {sideBySide && <Check className="w-4 h-4" />}
+          </button>
+
+          <div className="my-1 border-t border-white/10" />
+
+          <div className="max-h-52 overflow-y-auto">
+            <button
+              onClick={() => choose(null)}
+              className="w-full flex items-center gap-2 px-3 py-1.5 hover:bg-gray-800"
+            >
+              <img className="w-5" src={currentLanguage.flag} alt="" />
+              <span className="flex-1 text-start" lang={currentLanguage.id} dir={getDirection(currentLanguage)}>
+                {currentLanguage.name}
+              </span>
+              {!selected && <Check className="w-4 h-4" />}
+            </button>
+
+            {!links && !failed && (
+              <div className="flex justify-center py-2">
+                <Loader2 className="w-4 h-4 animate-spin text-white/70" />
+              </div>
+            )}
+            {failed && (
+              <p className="px-3 py-1.5 text-white/60">{t("otherLanguagesFailed")}</p>
+            )}
+            {links?.length === 0 && (
+              <p className="px-3 py-1.5 text-white/60">{t("noOtherLanguages")}</p>
+            )}
+
+            {links?.map((link) => (
+              <button
+                key={link.language.id}
+                onClick={() => choose(link)}
+                className="w-full flex items-center gap-2 px-3 py-1.5 hover:bg-gray-800"
+              >
+                <img className="w-5" src={link.language.flag} alt="" />
+                <span className="flex-1 text-start" lang={link.language.id} dir={getDirection(link.language)}>
+                  {link.language.name}
+                </span>
+                {selected?.language.id === link.language.id && <Check className="w-4 h-4" />}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { X } from "lucide-react";
+import ArticleList from "./ArticleList";
+import type { WikiArticle } from "./WikiCard";
+import type { ArticleProps } from "../types/ArticleProps";
+import { useWatchlist, type SavedFilm } from "../hooks/useWatchlist";
+import { useLocalization } from "../hooks/useLocalization";
+import type { Translate } from "../messages";
+
+type SortOrder = "saved" | "year";
+
+interface WatchlistProps {
+  onClose: () => void;
+  onSelectFilm: (article: WikiArticle) => void;
+}
+
+const sortFilms = (films: SavedFilm[], order: SortOrder) =>
+  [...films].sort((a, b) => {
+    if (order === "year") {
+      // Films without a known year go last
+      const yearA = a.article.metadata?.releaseYear ?? -Infinity;
+      const yearB = b.article.metadata?.releaseYear ?? -Infinity;
+      if (yearA !== yearB) return yearB - yearA;
+    }
+    return b.savedAt - a.savedAt;
+  });
+
+const toArticleProps = (film: SavedFilm, t: Translate, locale: string): ArticleProps => ({
+  id: film.article.pageid,
+  title: film.article.displaytitle,
+  content: film.article.extract,
+  image: film.article.thumbnail?.source,
+  date: [
+    film.article.metadata?.releaseYear,
+    t("savedOn", { date: new Date(film.savedAt).toLocaleDateString(locale) }),
+  ]
+    .filter(Boolean)
+    .join(" · "),
+});
+
+export function Watchlist({ onClose, onSelectFilm }: WatchlistProps) {
+  const [order, setOrder] = useState<SortOrder>("saved");
+  const { films, removeFilm } = useWatchlist();
+  const { currentLanguage, t } = useLocalization();
+  const sorted = sortFilms(films, order);
+
+  const findFilm = (item: ArticleProps) =>
+    sorted.find((film) => film.article.pageid === item.id);
+
+  return (
+    <div className="fixed inset-0 bg-black/95 backdrop-blur-md z-[100] flex justify-center p-4 pt-20">
+      <div className="max-w-xl w-full flex flex-col">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-white">{t("watchlist")}</h2>
+          <div className="flex items-center gap-2">
+            <select
+              value={order}
+              onChange={(e) => setOrder(e.target.value as SortOrder)}
+              className="bg-gray-800 rounded-md px-2 py-1 text-sm"
+              aria-label={t("sortWatchlist")}
+            >
+              <option value="saved">{t("recentlySaved")}</option>
+              <option value="year">{t("releaseYear")}</option>
+            </select>
+            <button
+              onClick={onClose}
+              className="text-white/70 hover:text-white transition-colors hover:bg-white/10 rounded-full p-2"
+              aria-label={t("closeWatchlist")}
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto overscroll-contain">
+          {sorted.length === 0 ? (
+            <p className="text-white/60">
+              {t("watchlistEmpty")}
+            </p>
+          ) : (
+            <ArticleList
+              articles={sorted.map((film) => toArticleProps(film, t, currentLanguage.id))}
+              onArticleSelect={(item) => {
+                const film = findFilm(item);
+                if (film) onSelectFilm(film.article);
+              }}
+              onArticleRemove={(item) => removeFilm(String(item.id))}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,28 @@
-import { Share2 } from "lucide-react";
+import { BookOpen, Bookmark, BookmarkCheck, CalendarDays, Share2, Sparkles } from "lucide-react";
 import { useState } from "react";
+import { PlotReader } from "./PlotReader";
+import { FilmMetadataStrip } from "./FilmMetadataStrip";
+import { TranslationMenu } from "./TranslationMenu";
+import { useSpoilerSafe } from "../hooks/useSpoilerSafe";
+import { useWatchlist } from "../hooks/useWatchlist";
+import { useLocalization } from "../hooks/useLocalization";
+import { useFilmTranslation } from "../hooks/useFilmTranslation";
+import { getDirection } from "../languages";
+import { filmUrl } from "../utils/routes";
+import { CARD_IMAGE_SIZES, getCardImage, isUsableImage } from "../utils/images";
+
+export interface FilmMetadata {
+  director?: string;
+  cast: string[];
+  releaseYear?: number;
+  // Commons file name of the film poster (P3383) or image (P18), preferred over the page image
+  poster?: string;
+  // Minutes
+  runtime?: number;
+  genres: string[];
+  countries: string[];
+  imdbId?: string;
+}
 
 export interface WikiArticle {
   title: string;
@@ -7,47 +30,113 @@ export interface WikiArticle {
   extract: string;
   pageid: string;
   url: string;
-  thumbnail: { source: string; width: number; height: number };
+  // Feed articles always have one, films opened by id or search may not
+  thumbnail?: { source: string; width: number; height: number; originalWidth?: number };
   categories?: string[];
+  wikidataId?: string;
+  // Filled in from Wikidata after the card is shown, may never arrive
+  metadata?: FilmMetadata;
+  // "On this day" feed only, the year it came out on today's date
+  anniversaryYear?: number;
 }
 
-interface WikiCardProps { article: WikiArticle }
+interface WikiCardProps {
+  article: WikiArticle;
+  // Switches the feed to films like this one, hidden when not given
+  onMoreLikeThis?: (article: WikiArticle) => void;
+}
 
-export function WikiCard({ article }: WikiCardProps) {
-  const [imageLoaded, setImageLoaded] = useState(false);
+export function WikiCard({ article, onMoreLikeThis }: WikiCardProps) {
+  // Source of the image that finished loading, the poster may replace the page image later
+  const [loadedImage, setLoadedImage] = useState<string | null>(null);
+  const [posterFailed, setPosterFailed] = useState(false);
+  const [showPlot, setShowPlot] = useState(false);
+  const [endingRevealed, setEndingRevealed] = useState(false);
+  const { spoilerSafe } = useSpoilerSafe();
+  const { isSaved, saveFilm, removeFilm } = useWatchlist();
+  const saved = isSaved(article.pageid);
+  const { currentLanguage, t } = useLocalization();
+  const [sideBySide, setSideBySide] = useState(false);
+  const {
+    link: translationLink,
+    setLink: setTranslationLink,
+    translation,
+    loading: translating,
+    error: translationError,
+  } = useFilmTranslation();
+  // Swapped in place unless both versions are shown next to each other
+  const shown = translation && !sideBySide ? translation : article;
+  const image = getCardImage(article, !posterFailed);
+  const imageLoaded = !!image && loadedImage === image.src;
 
+  // Share a link back into the app rather than to Wikipedia
   const handleShare = async () => {
+    const shareUrl = filmUrl(currentLanguage.id, article.pageid, article.title);
+
     if (navigator.share) {
       try {
         await navigator.share({
-          title: article.displaytitle,
+          title: `${article.displaytitle} · wiki_plot`,
           text: article.extract || "",
-          url: article.url,
+          url: shareUrl,
         });
-      } catch {
-        alert("Failed to share the article.");
+      } catch (error) {
+        // Closing the share sheet isn't a failure
+        if (error instanceof DOMException && error.name === "AbortError") return;
+        alert(t("shareFailed"));
       }
     } else {
-      await navigator.clipboard.writeText(article.url);
-      alert("Link copied to clipboard!");
+      try {
+        await navigator.clipboard.writeText(shareUrl);
+        alert(t("linkCopied"));
+      } catch {
+        // Clipboard permission denied or no secure context
+        alert(t("shareFailed"));
+      }
     }
   };
 
   return (
     <section className="h-screen snap-start">
       <div className="article-container">
-        <img
-          loading="lazy"
-          src={article.thumbnail?.source}
-          alt={article.displaytitle}
-          onLoad={() => setImageLoaded(true)}
-          onError={() => setImageLoaded(true)}
-          className={`article-image transition-opacity duration-300 ${
-            imageLoaded ? "opacity-100" : "opacity-0"
-          }`}
-        />
-        {!imageLoaded && (
-          <div className="article-image bg-gray-900 animate-pulse" />
+        {image && !imageLoaded && (
+          image.placeholder ? (
+            <img
+              src={image.placeholder}
+              crossOrigin={image.crossOrigin}
+              alt=""
+              aria-hidden="true"
+              className="article-image scale-110 blur-xl"
+            />
+          ) : (
+            <div className="article-image bg-gray-900 animate-pulse" />
+          )
+        )}
+        {image ? (
+          <img
+            key={image.src}
+            loading="lazy"
+            src={image.src}
+            crossOrigin={image.crossOrigin}
+            srcSet={image.srcSet}
+            sizes={image.srcSet ? CARD_IMAGE_SIZES : undefined}
+            alt={article.displaytitle}
+            onLoad={(event) => {
+              // Poster sizes aren't known up front, so logos and banners only show up here
+              const { naturalWidth: width, naturalHeight: height } = event.currentTarget;
+              if (image.isPoster && !isUsableImage({ width, height })) {
+                setPosterFailed(true);
+              } else {
+                setLoadedImage(image.src);
+              }
+            }}
+            onError={() => (image.isPoster ? setPosterFailed(true) : setLoadedImage(image.src))}
+            className={`article-image transition-opacity duration-300 motion-reduce:transition-none ${
+              imageLoaded ? "opacity-100" : "opacity-0"
+            }`}
+          />
+        ) : (
+          <div className="article-image bg-gradient-to-b from-gray-800 to-black" />
         )}
         
         <div className="absolute inset-0 z-[1] bg-gradient-to-b from-black/50 via-black/30 to-black/60" />
@@ -56,40 +145,141 @@ export function WikiCard({ article }: WikiCardProps) {
 
         <div className="absolute inset-0 z-10 flex items-center justify-center p-6">
           <div className="article-content max-w-[90%] md:max-w-[75%]">
+            {article.anniversaryYear !== undefined && (
+              <p className="text-xs uppercase tracking-wide text-white/60 mb-1 flex items-center gap-1">
+                <CalendarDays className="w-3.5 h-3.5" />
+                {t("releasedYearsAgo", { count: new Date().getFullYear() - article.anniversaryYear })}
+              </p>
+            )}
             <div className="flex items-start justify-between gap-3 mb-2">
               <a
-                href={article.url}
+                href={shown.url}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="hover:text-gray-200"
               >
-                <h2 className="text-2xl font-bold drop-shadow">
-                  {article.displaytitle}
+                <h2
+                  id={`card-title-${article.pageid}`}
+                  className="text-2xl font-bold drop-shadow"
+                  lang={translation && !sideBySide ? translation.language.id : undefined}
+                  dir={translation && !sideBySide ? getDirection(translation.language) : undefined}
+                >
+                  {shown.displaytitle}
                 </h2>
               </a>
+              <div className="flex shrink-0 gap-2">
+                <TranslationMenu
+                  pageid={article.pageid}
+                  selected={translationLink}
+                  onSelect={setTranslationLink}
+                  sideBySide={sideBySide}
+                  onSideBySideChange={setSideBySide}
+                />
+                <button
+                  onClick={() => (saved ? removeFilm(article.pageid) : saveFilm(article))}
+                  className="p-2 rounded-full bg-white/10 hover:bg-white/20 transition-colors"
+                  aria-label={saved ? t("removeFromWatchlist") : t("saveToWatchlist")}
+                  aria-pressed={saved}
+                >
+                  {saved ? (
+                    <BookmarkCheck className="w-5 h-5" />
+                  ) : (
+                    <Bookmark className="w-5 h-5" />
+                  )}
+                </button>
+                <button
+                  onClick={handleShare}
+                  className="p-2 rounded-full bg-white/10 hover:bg-white/20 transition-colors"
+                  aria-label={t("share")}
+                >
+                  <Share2 className="w-5 h-5" />
+                </button>
+              </div>
+            </div>
+
+            {article.metadata && (
+              <FilmMetadataStrip metadata={article.metadata} />
+            )}
+
+            {translating && (
+              <p className="text-sm text-white/60 mb-2">
+                {t("loadingTranslation", { language: translationLink?.language.name ?? "" })}
+              </p>
+            )}
+            {translationError && (
+              <p className="text-sm text-white/60 mb-2">
+                {t("translationFailed", { language: translationLink?.language.name ?? "" })}
+              </p>
+            )}
+
+            {translation && sideBySide ? (
+              <div className="grid md:grid-cols-2 gap-4 mb-3">
+                <div>
+                  <p className="text-xs uppercase tracking-wide text-white/50 mb-1">
+                    {currentLanguage.name}
+                  </p>
+                  <p className="text-gray-100/95 drop-shadow line-clamp-6">
+                    {article.extract}
+                  </p>
+                </div>
+                <div lang={translation.language.id} dir={getDirection(translation.language)}>
+                  <p className="text-xs uppercase tracking-wide text-white/50 mb-1">
+                    {translation.language.name}
+                  </p>
+                  <p className="font-semibold drop-shadow mb-1">{translation.displaytitle}</p>
+                  <p className="text-gray-100/95 drop-shadow line-clamp-6">
+                    {translation.extract}
+                  </p>
+                </div>
+              </div>
+            ) : (
+              <p
+                className="text-gray-100/95 drop-shadow mb-3 line-clamp-6"
+                lang={translation ? translation.language.id : undefined}
+                dir={translation ? getDirection(translation.language) : undefined}
+              >
+                {shown.extract}
+              </p>
+            )}
+
+            <div className="flex items-center justify-center gap-4">
               <button
-                onClick={handleShare}
-                className="shrink-0 p-2 rounded-full bg-white/10 hover:bg-white/20 transition-colors"
-                aria-label="Share article"
+                onClick={() => setShowPlot(true)}
+                className="inline-flex items-center gap-2 px-3 py-1 rounded-full bg-white/10 hover:bg-white/20 transition-colors"
               >
-                <Share2 className="w-5 h-5" />
+                <BookOpen className="w-4 h-4" />
+                {t("readPlot")}
               </button>
+              {onMoreLikeThis && (
+                <button
+                  onClick={() => onMoreLikeThis(article)}
+                  className="inline-flex items-center gap-2 px-3 py-1 rounded-full bg-white/10 hover:bg-white/20 transition-colors"
+                >
+                  <Sparkles className="w-4 h-4" />
+                  {t("moreLikeThis")}
+                </button>
+              )}
+              <a
+                href={shown.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-block hover:text-gray-200"
+              >
+                {t("readMore")} <span className="inline-block rtl:-scale-x-100">→</span>
+              </a>
             </div>
-
-            <p className="text-gray-100/95 drop-shadow mb-3 line-clamp-6">
-              {article.extract}
-            </p>
-
-            <a
-              href={article.url}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="inline-block hover:text-gray-200"
-            >
-              Read more →
-            </a>
           </div>
         </div>
+
+        {showPlot && (
+          <PlotReader
+            article={article}
+            onClose={() => setShowPlot(false)}
+            spoilerSafe={spoilerSafe}
+            revealed={endingRevealed}
+            onReveal={() => setEndingRevealed(true)}
+          />
+        )}
       </div>
     </section>
   );
@@ -0,0 +1,130 @@
+import type { MessageKey } from "./messages";
+
+/**
+ * Kinds of works the feed can be made of. Each source says which English
+ * year categories to draw pages from (resolved to local categories through
+ * their interlanguage links), which Wikidata classes count as one of its
+ * works and which words give one away on a random page.
+ */
+export interface FeedSource {
+  id: string;
+  // Plural, as shown in the header
+  label: MessageKey;
+  // Shown when the next cards of the feed fail to load
+  loadFailed: MessageKey;
+  // English category with the works of a year, e.g. "Category:1999 films",
+  // narrowed by a film genre or one of the source's `qualifiers`
+  yearCategory: (year: number, qualifier?: string) => string;
+  // One is picked at random for every year category drawn from, when given
+  qualifiers?: string[];
+  // Earliest year drawn when no decade filter is set, later years are favoured
+  firstYear: number;
+  // Wikidata "instance of" (P31) classes counted as this kind of work
+  classes: string[];
+  // Lowercase words in a random page's categories, title or intro that mark it as one
+  keywords: string[];
+  // Whether the genre, country and format filters apply, decades always do
+  filmFilters: boolean;
+}
+
+export const FEED_SOURCES: FeedSource[] = [
+  {
+    id: "films",
+    label: "sourceFilms",
+    loadFailed: "loadFailedFilms",
+    // e.g. "Category:1999 films" or "Category:1999 horror films"
+    yearCategory: (year, genre) => `Category:${year} ${genre ? `${genre} ` : ""}films`,
+    firstYear: 1929,
+    classes: [
+      "Q11424", // film
+      "Q24869", // feature film
+      "Q202866", // animated film
+      "Q506240", // television film
+      "Q24862", // short film
+      "Q93204", // documentary film
+      "Q229390", // 3D film
+      "Q20650540", // anime film
+    ],
+    keywords: ["film", "movie", "cinema", "directed by", "starring"],
+    filmFilters: true,
+  },
+  {
+    id: "tv",
+    label: "sourceTv",
+    loadFailed: "loadFailedTv",
+    // The plain "<year> television series debuts" mostly holds per-country
+    // subcategories, so each draw goes through one of the bigger countries
+    yearCategory: (year, country) => `Category:${year} ${country} television series debuts`,
+    qualifiers: [
+      "American",
+      "British",
+      "Canadian",
+      "Australian",
+      "Indian",
+      "Japanese",
+      "South Korean",
+      "German",
+      "French",
+      "Spanish",
+      "Italian",
+      "Mexican",
+      "Brazilian",
+      "Chinese",
+    ],
+    firstYear: 1950,
+    classes: [
+      "Q5398426", // television series
+      "Q581714", // animated series
+      "Q1259759", // miniseries
+      "Q526877", // web series
+      "Q63952888", // anime television series
+    ],
+    keywords: ["television series", "tv series", "sitcom", "miniseries", "web series"],
+    filmFilters: false,
+  },
+  {
+    id: "novels",
+    label: "sourceNovels",
+    loadFailed: "loadFailedNovels",
+    yearCategory: (year) => `Category:${year} novels`,
+    firstYear: 1850,
+    classes: [
+      "Q7725634", // literary work
+      "Q8261", // novel
+      "Q149537", // novella
+      "Q571", // book
+      "Q47461344", // written work
+    ],
+    keywords: ["novel", "novella"],
+    filmFilters: false,
+  },
+  {
+    id: "games",
+    label: "sourceGames",
+    loadFailed: "loadFailedGames",
+    yearCategory: (year) => `Category:${year} video games`,
+    firstYear: 1980,
+    classes: [
+      "Q7889", // video game
+      "Q865493", // video game expansion pack
+    ],
+    keywords: ["video game"],
+    filmFilters: false,
+  },
+  {
+    id: "plays",
+    label: "sourcePlays",
+    loadFailed: "loadFailedPlays",
+    yearCategory: (year) => `Category:${year} plays`,
+    firstYear: 1850,
+    classes: [
+      "Q25379", // play
+      "Q7725634", // literary work
+      "Q2743", // musical
+    ],
+    keywords: ["plays", "playwright", "stage play", "theatre", "theater", "broadway"],
+    filmFilters: false,
+  },
+];
+
+export const DEFAULT_FEED_SOURCE = FEED_SOURCES[0];
@@ -0,0 +1,74 @@
+import type { MessageKey } from "./messages";
+
+// `category` is the genre word used in English year categories, e.g. "1999 horror films"
+export const GENRES: { id: string; label: MessageKey; category: string }[] = [
+  { id: "action", label: "genreAction", category: "action" },
+  { id: "adventure", label: "genreAdventure", category: "adventure" },
+  { id: "comedy", label: "genreComedy", category: "comedy" },
+  { id: "crime", label: "genreCrime", category: "crime" },
+  { id: "documentary", label: "genreDocumentary", category: "documentary" },
+  { id: "drama", label: "genreDrama", category: "drama" },
+  { id: "fantasy", label: "genreFantasy", category: "fantasy" },
+  { id: "horror", label: "genreHorror", category: "horror" },
+  { id: "musical", label: "genreMusical", category: "musical" },
+  { id: "romance", label: "genreRomance", category: "romance" },
+  { id: "scifi", label: "genreScifi", category: "science fiction" },
+  { id: "thriller", label: "genreThriller", category: "thriller" },
+  { id: "war", label: "genreWar", category: "war" },
+  { id: "western", label: "genreWestern", category: "Western (genre)" },
+];
+
+// `adjective` matches English categories such as "French drama films"
+export const COUNTRIES: { id: string; label: MessageKey; adjective: string }[] = [
+  { id: "us", label: "countryUs", adjective: "American" },
+  { id: "gb", label: "countryGb", adjective: "British" },
+  { id: "fr", label: "countryFr", adjective: "French" },
+  { id: "de", label: "countryDe", adjective: "German" },
+  { id: "it", label: "countryIt", adjective: "Italian" },
+  { id: "es", label: "countryEs", adjective: "Spanish" },
+  { id: "in", label: "countryIn", adjective: "Indian" },
+  { id: "jp", label: "countryJp", adjective: "Japanese" },
+  { id: "kr", label: "countryKr", adjective: "South Korean" },
+  { id: "cn", label: "countryCn", adjective: "Chinese" },
+  { id: "hk", label: "countryHk", adjective: "Hong Kong" },
+  { id: "ca", label: "countryCa", adjective: "Canadian" },
+  { id: "mx", label: "countryMx", adjective: "Mexican" },
+  { id: "br", label: "countryBr", adjective: "Brazilian" },
+  { id: "ru", label: "countryRu", adjective: "Russian" },
+];
+
+export const FORMATS = [
+  { id: "all", label: "formatAll" },
+  { id: "animated", label: "formatAnimated" },
+  { id: "live-action", label: "formatLiveAction" },
+] as const;
+
+export type FilmFormat = (typeof FORMATS)[number]["id"];
+
+export interface FeedFilters {
+  // First year of the earliest and latest decade, inclusive
+  decadeFrom: number | null;
+  decadeTo: number | null;
+  genres: string[];
+  countries: string[];
+  format: FilmFormat;
+}
+
+export const DEFAULT_FILTERS: FeedFilters = {
+  decadeFrom: null,
+  decadeTo: null,
+  genres: [],
+  countries: [],
+  format: "all",
+};
+
+export const FIRST_DECADE = 1900;
+
+export const getDecades = () => {
+  const lastDecade = Math.floor(new Date().getFullYear() / 10) * 10;
+  const decades = [];
+  for (let decade = FIRST_DECADE; decade <= lastDecade; decade += 10) {
+    decades.push(decade);
+  }
+  return decades;
+};
@@ -0,0 +1,61 @@
+import { act, renderHook } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createStoredValue } from "./storedValue";
+
+const createStore = () =>
+  createStoredValue(
+    "test",
+    (stored) => ({ count: Number(stored ?? 0) }),
+    (value) => String(value.count)
+  );
+
+describe("createStoredValue", () => {
+  beforeEach(() => localStorage.clear());
+  afterEach(() => vi.restoreAllMocks());
+
+  it("keeps the parsed value while the stored string is unchanged", () => {
+    const store = createStore();
+    localStorage.setItem("test", "2");
+
+    expect(store.get()).toEqual({ count: 2 });
+    expect(store.get()).toBe(store.get());
+  });
+
+  it("updates every reader when set", () => {
+    const store = createStore();
+    const first = renderHook(() => store.useValue());
+    const second = renderHook(() => store.useValue());
+
+    act(() => store.set({ count: 3 }));
+
+    expect(localStorage.getItem("test")).toBe("3");
+    expect(first.result.current.count).toBe(3);
+    expect(second.result.current.count).toBe(3);
+  });
+
+  it("follows changes made in other tabs", () => {
+    const store = createStore();
+    const { result } = renderHook(() => store.useValue());
+
+    act(() => {
+      localStorage.setItem("test", "5");
+      window.dispatchEvent(new StorageEvent("storage", { key: "test" }));
+    });
+
+    expect(result.current.count).toBe(5);
+  });
+
+  it("keeps working for the session when storage is disabled", () => {
+    const store = createStore();
+    const blocked = () => {
+      throw new DOMException("The operation is insecure.", "SecurityError");
+    };
+    vi.spyOn(Storage.prototype, "getItem").mockImplementation(blocked);
+    vi.spyOn(Storage.prototype, "setItem").mockImplementation(blocked);
+    const { result } = renderHook(() => store.useValue());
+
+    expect(result.current.count).toBe(0);
+    act(() => store.set({ count: 4 }));
+    expect(result.current.count).toBe(4);
+  });
+});
@@ -0,0 +1,68 @@
+import { useSyncExternalStore } from "react";
+
+/**
+ * A setting kept in localStorage and shared by every component that reads
+ * it, including other tabs through the `storage` event. `parse` turns the
+ * stored string (null when unset) into a value; it's only re-run when that
+ * string changes, so object values keep their identity between renders.
+ * Without working storage, values set in this session are kept in memory.
+ */
+export function createStoredValue<T>(
+  key: string,
+  parse: (stored: string | null) => T,
+  serialize: (value: T) => string = String
+) {
+  const listeners = new Set<() => void>();
+  let cachedRaw: string | null = null;
+  let cachedValue = parse(null);
+  // Serialized value that couldn't be written to storage, read instead of it
+  let unsaved: string | undefined;
+
+  const read = () => {
+    if (unsaved !== undefined) return unsaved;
+    try {
+      return localStorage.getItem(key);
+    } catch {
+      // Storage disabled, e.g. blocked cookies
+      return null;
+    }
+  };
+
+  const subscribe = (listener: () => void) => {
+    const handleStorage = (event: StorageEvent) => {
+      // A null key means another tab cleared storage
+      if (event.key === key || event.key === null) listener();
+    };
+    listeners.add(listener);
+    window.addEventListener("storage", handleStorage);
+    return () => {
+      listeners.delete(listener);
+      window.removeEventListener("storage", handleStorage);
+    };
+  };
+
+  const get = (): T => {
+    const raw = read();
+    if (raw !== cachedRaw) {
+      cachedRaw = raw;
+      cachedValue = parse(raw);
+    }
+    return cachedValue;
+  };
+
+  const set = (value: T) => {
+    const raw = serialize(value);
+    try {
+      localStorage.setItem(key, raw);
+      unsaved = undefined;
+    } catch {
+      // Storage full or unavailable, the setting only lasts until reload
+      unsaved = raw;
+    }
+    listeners.forEach((listener) => listener());
+  };
+
+  const useValue = () => useSyncExternalStore(subscribe, get);
+
+  return { get, set, useValue };
+}
@@ -0,0 +1,21 @@
+import { act, renderHook } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { useFeedFilters } from "./useFeedFilters";
+import { DEFAULT_FILTERS } from "../filters";
+
+describe("useFeedFilters", () => {
+  it("keeps the address bar in step with filters changed in another tab", () => {
+    const { result } = renderHook(() => useFeedFilters());
+
+    act(() => {
+      localStorage.setItem("filters", JSON.stringify({ ...DEFAULT_FILTERS, genres: ["horror"] }));
+      window.dispatchEvent(new StorageEvent("storage", { key: "filters" }));
+    });
+
+    expect(result.current.filters.genres).toEqual(["horror"]);
+    expect(new URLSearchParams(window.location.search).get("genres")).toBe("horror");
+
+    act(() => result.current.applyFilters(DEFAULT_FILTERS));
+    expect(window.location.search).toBe("");
+  });
+});
@@ -0,0 +1,121 @@
+import { useEffect } from "react";
+import {
+  COUNTRIES,
+  DEFAULT_FILTERS,
+  FORMATS,
+  GENRES,
+  getDecades,
+  type FeedFilters,
+} from "../filters";
+import { createStoredValue } from "./storedValue";
+
+const STORAGE_KEY = "filters";
+
+const PARAM_KEYS = ["from", "to", "genres", "countries", "format"];
+
+const parseDecade = (value: unknown) => {
+  const decade = Number(value);
+  return getDecades().includes(decade) ? decade : null;
+};
+
+const parseList = (value: unknown, known: { id: string }[]) =>
+  (Array.isArray(value) ? value : String(value || "").split(","))
+    .filter((id): id is string => known.some((item) => item.id === id));
+
+// Drops unknown ids and out-of-range decades from URL or storage input
+const sanitizeFilters = (raw: Record<string, unknown>): FeedFilters => {
+  let decadeFrom = parseDecade(raw.decadeFrom);
+  let decadeTo = parseDecade(raw.decadeTo);
+  if (decadeFrom !== null && decadeTo !== null && decadeFrom > decadeTo) {
+    [decadeFrom, decadeTo] = [decadeTo, decadeFrom];
+  }
+
+  return {
+    decadeFrom,
+    decadeTo,
+    genres: parseList(raw.genres, GENRES),
+    countries: parseList(raw.countries, COUNTRIES),
+    format: FORMATS.find((format) => format.id === raw.format)?.id || "all",
+  };
+};
+
+const readUrlFilters = (): FeedFilters | null => {
+  const params = new URLSearchParams(window.location.search);
+  if (!PARAM_KEYS.some((key) => params.has(key))) return null;
+
+  return sanitizeFilters({
+    decadeFrom: params.get("from"),
+    decadeTo: params.get("to"),
+    genres: params.get("genres"),
+    countries: params.get("countries"),
+    format: params.get("format"),
+  });
+};
+
+// Query string form of the filters, also what tells two sets of filters apart
+export const filterParams = (filters: FeedFilters) => {
+  const params = new URLSearchParams();
+  if (filters.decadeFrom !== null) params.set("from", String(filters.decadeFrom));
+  if (filters.decadeTo !== null) params.set("to", String(filters.decadeTo));
+  if (filters.genres.length) params.set("genres", filters.genres.join(","));
+  if (filters.countries.length) params.set("countries", filters.countries.join(","));
+  if (filters.format !== "all") params.set("format", filters.format);
+  return params;
+};
+
+const writeUrlFilters = (filters: FeedFilters) => {
+  const url = new URL(window.location.href);
+  PARAM_KEYS.forEach((key) => url.searchParams.delete(key));
+  filterParams(filters).forEach((value, key) => url.searchParams.set(key, value));
+  window.history.replaceState(window.history.state, "", url);
+};
+
+export const hasActiveFilters = (filters: FeedFilters) =>
+  filters.decadeFrom !== null ||
+  filters.decadeTo !== null ||
+  filters.genres.length > 0 ||
+  filters.countries.length > 0 ||
+  filters.format !== "all";
+
+const filtersStore = createStoredValue<FeedFilters>(
+  STORAGE_KEY,
+  (stored) => {
+    try {
+      return stored ? sanitizeFilters(JSON.parse(stored)) : DEFAULT_FILTERS;
+    } catch {
+      return DEFAULT_FILTERS;
+    }
+  },
+  (filters) => JSON.stringify(filters)
+);
+
+let urlFiltersRead = false;
+
+// A shared link wins over whatever this browser saved last time. Read once,
+// on first use, before anything renders with the saved filters
+const adoptUrlFilters = () => {
+  if (urlFiltersRead) return;
+  urlFiltersRead = true;
+  const urlFilters = readUrlFilters();
+  if (urlFilters) filtersStore.set(urlFilters);
+};
+
+// Feed filters shared by the panel, the header and the feed, applying new ones starts a fresh feed
+export function useFeedFilters() {
+  adoptUrlFilters();
+  const filters = filtersStore.useValue();
+
+  // The address bar follows every change, including ones made in another tab
+  useEffect(() => {
+    writeUrlFilters(filters);
+  }, [filters]);
+
+  const applyFilters = (newFilters: FeedFilters) => {
+    filtersStore.set(sanitizeFilters({ ...newFilters }));
+  };
+
+  return {
+    filters,
+    applyFilters,
+  };
+}
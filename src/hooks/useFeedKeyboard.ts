@@ -0,0 +1,63 @@
+import { useEffect, type RefObject } from "react";
+import { scrollBehavior } from "../utils/motion";
+
+const NEXT_KEYS = ["j", "ArrowDown"];
+const PREVIOUS_KEYS = ["k", "ArrowUp"];
+
+// Keys typed into a field are text, not navigation
+const isEditable = (target: HTMLElement) =>
+  target.isContentEditable || ["INPUT", "SELECT", "TEXTAREA"].includes(target.tagName);
+
+const isScrollable = (element: HTMLElement) =>
+  element.scrollHeight > element.clientHeight &&
+  /auto|scroll/.test(getComputedStyle(element).overflowY);
+
+/**
+ * Whether a key pressed on `target` belongs to the feed: not inside a field,
+ * a dialog, menu or list of options, or a panel with its own scrolling (the
+ * plot reader, long menus), where the arrow keys already mean something.
+ */
+const isFeedTarget = (target: EventTarget | null, feed: HTMLElement) => {
+  if (!(target instanceof HTMLElement) || target === document.body) return true;
+  if (isEditable(target) || target.closest('[role="dialog"], [role="menu"], [role="listbox"]')) {
+    return false;
+  }
+  let element: HTMLElement | null = target;
+  while (element && element !== feed) {
+    if (isScrollable(element)) return false;
+    element = element.parentElement;
+  }
+  return true;
+};
+
+/**
+ * j / ArrowDown and k / ArrowUp move to the next or previous card of the
+ * feed and focus it, so screen readers follow along. Off while `enabled` is
+ * false, e.g. when a dialog covers the feed.
+ */
+export function useFeedKeyboard(feedRef: RefObject<HTMLElement | null>, enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const feed = feedRef.current;
+      if (!feed || event.altKey || event.ctrlKey || event.metaKey) return;
+      if (!isFeedTarget(event.target, feed)) return;
+
+      const step = NEXT_KEYS.includes(event.key) ? 1 : PREVIOUS_KEYS.includes(event.key) ? -1 : 0;
+      if (step === 0) return;
+
+      const cards = feed.querySelectorAll<HTMLElement>('[role="article"]');
+      if (cards.length === 0) return;
+      event.preventDefault();
+
+      const current = Math.round(feed.scrollTop / feed.clientHeight);
+      const target = Math.min(Math.max(current + step, 0), cards.length - 1);
+      cards[target].focus({ preventScroll: true });
+      feed.scrollTo({ top: target * feed.clientHeight, behavior: scrollBehavior() });
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [feedRef, enabled]);
+}
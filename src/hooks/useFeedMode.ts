@@ -0,0 +1,14 @@
+import { createStoredValue } from "./storedValue";
+
+// "random" draws from year categories, "onThisDay" shows release anniversaries
+export type FeedMode = "random" | "onThisDay";
+
+const modeStore = createStoredValue<FeedMode>("feedMode", (stored) =>
+  stored === "onThisDay" ? "onThisDay" : "random"
+);
+
+// How the feed picks its films, switching it starts a fresh feed
+export function useFeedMode() {
+  const mode = modeStore.useValue();
+  return { mode, setMode: modeStore.set };
+}
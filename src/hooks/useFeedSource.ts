@@ -0,0 +1,20 @@
+import { DEFAULT_FEED_SOURCE, FEED_SOURCES } from "../feedSources";
+import { createStoredValue } from "./storedValue";
+
+const sourceStore = createStoredValue(
+  "feedSource",
+  (stored) => FEED_SOURCES.find((feedSource) => feedSource.id === stored) || DEFAULT_FEED_SOURCE,
+  (source) => source.id
+);
+
+// What the feed is made of, films unless the user picked something else
+export function useFeedSource() {
+  const source = sourceStore.useValue();
+
+  const setSource = (id: string) => {
+    const next = FEED_SOURCES.find((feedSource) => feedSource.id === id);
+    if (next) sourceStore.set(next);
+  };
+
+  return { source, setSource };
+}
@@ -0,0 +1,39 @@
+import { useEffect, useState, type RefObject } from "react";
+
+// Cards kept mounted on each side of the one in view
+const OVERSCAN = 2;
+
+/**
+ * Which cards of the snap-scrolling feed are close enough to the viewport to
+ * render. Every card is exactly one feed height tall, so the card in view
+ * follows from the scroll offset. Read once per frame while scrolling.
+ */
+export function useFeedWindow(feedRef: RefObject<HTMLElement | null>) {
+  const [index, setIndex] = useState(0);
+
+  useEffect(() => {
+    const feed = feedRef.current;
+    if (!feed) return;
+
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      setIndex(feed.clientHeight ? Math.round(feed.scrollTop / feed.clientHeight) : 0);
+    };
+    const schedule = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+
+    feed.addEventListener("scroll", schedule, { passive: true });
+    window.addEventListener("resize", schedule);
+    return () => {
+      feed.removeEventListener("scroll", schedule);
+      window.removeEventListener("resize", schedule);
+      cancelAnimationFrame(frame);
+    };
+  }, [feedRef]);
+
+  const isInWindow = (cardIndex: number) => Math.abs(cardIndex - index) <= OVERSCAN;
+
+  return { index, isInWindow };
+}
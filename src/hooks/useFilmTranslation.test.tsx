@@ -0,0 +1,27 @@
+import { act, renderHook } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { useFilmTranslation } from "./useFilmTranslation";
+import { LANGUAGES } from "../languages";
+import { fetchTranslation } from "../utils/langlinks";
+
+vi.mock("../utils/langlinks", () => ({ fetchTranslation: vi.fn() }));
+
+const GERMAN = LANGUAGES.find((language) => language.id === "de")!;
+
+describe("useFilmTranslation", () => {
+  it("stops loading when going back to the original mid-request", () => {
+    // Never resolves, only rejects once the request is aborted
+    vi.mocked(fetchTranslation).mockImplementation(
+      (_link, { signal } = {}) =>
+        new Promise((_, reject) => signal?.addEventListener("abort", () => reject(signal.reason)))
+    );
+    const { result } = renderHook(() => useFilmTranslation());
+
+    act(() => result.current.setLink({ language: GERMAN, title: "Heat (1995)" }));
+    expect(result.current.loading).toBe(true);
+
+    act(() => result.current.setLink(null));
+    expect(result.current.loading).toBe(false);
+    expect(result.current.translation).toBeNull();
+  });
+});
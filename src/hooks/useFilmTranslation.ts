@@ -0,0 +1,41 @@
+import { useState, useEffect } from "react";
+import { fetchTranslation, type FilmTranslation, type LanguageLink } from "../utils/langlinks";
+
+// The card's film in another language, null while reading the original
+export function useFilmTranslation() {
+  const [link, setLink] = useState<LanguageLink | null>(null);
+  const [translation, setTranslation] = useState<FilmTranslation | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    setTranslation(null);
+    setError(false);
+    // Also ends the loading state of a request aborted by going back to the original
+    setLoading(false);
+    if (!link) return;
+
+    const controller = new AbortController();
+    const { signal } = controller;
+    setLoading(true);
+
+    fetchTranslation(link, { signal })
+      .then((result) => {
+        if (signal.aborted) return;
+        setTranslation(result);
+        setError(!result);
+      })
+      .catch((fetchError) => {
+        if (signal.aborted) return;
+        console.error(`Error fetching ${link.title} (${link.language.id}):`, fetchError);
+        setError(true);
+      })
+      .finally(() => {
+        if (!signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [link]);
+
+  return { link, setLink, translation, loading, error };
+}
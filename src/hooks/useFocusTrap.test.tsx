@@ -0,0 +1,65 @@
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { useState } from "react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { useFocusTrap } from "./useFocusTrap";
+
+function Dialog({ onClose }: { onClose: () => void }) {
+  const dialogRef = useFocusTrap<HTMLDivElement>(onClose);
+  return (
+    <div ref={dialogRef} role="dialog">
+      <button>First</button>
+      <button disabled>Disabled</button>
+      <button>Last</button>
+    </div>
+  );
+}
+
+function Page() {
+  const [open, setOpen] = useState(false);
+  return (
+    <>
+      <button onClick={() => setOpen(true)}>Open</button>
+      {open && <Dialog onClose={() => setOpen(false)} />}
+    </>
+  );
+}
+
+describe("useFocusTrap", () => {
+  afterEach(cleanup);
+
+  it("focuses the first control and wraps Tab around the dialog", () => {
+    render(<Dialog onClose={() => {}} />);
+    const first = screen.getByText("First");
+    const last = screen.getByText("Last");
+
+    expect(document.activeElement).toBe(first);
+
+    fireEvent.keyDown(document, { key: "Tab", shiftKey: true });
+    expect(document.activeElement).toBe(last);
+
+    fireEvent.keyDown(document, { key: "Tab" });
+    expect(document.activeElement).toBe(first);
+  });
+
+  it("closes on Escape", () => {
+    const onClose = vi.fn();
+    render(<Dialog onClose={onClose} />);
+
+    fireEvent.keyDown(document, { key: "Escape" });
+
+    expect(onClose).toHaveBeenCalledOnce();
+  });
+
+  it("gives focus back to the opener once closed", () => {
+    render(<Page />);
+    const opener = screen.getByText("Open");
+    opener.focus();
+
+    fireEvent.click(opener);
+    expect(document.activeElement).toBe(screen.getByText("First"));
+
+    fireEvent.keyDown(document, { key: "Escape" });
+    expect(screen.queryByRole("dialog")).toBeNull();
+    expect(document.activeElement).toBe(opener);
+  });
+});
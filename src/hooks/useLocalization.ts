@@ -1,32 +1,36 @@
-import { useState, useEffect, useCallback } from "react";
-import { LANGUAGES } from "../languages";
+import { createContext, useContext } from "react";
+import { LANGUAGES, type Language } from "../languages";
+import { parseFilmRoute } from "../utils/routes";
+import { detectLanguage } from "../utils/languagePreferences";
+import type { Translate } from "../messages";
 
-export function useLocalization() {
-  const getInitialLanguage = useCallback(() => {
-    const savedLanguageId = localStorage.getItem("lang");
-    return (
-      LANGUAGES.find((lang) => lang.id === savedLanguageId) || LANGUAGES[0]
-    );
-  }, []);
-
-  const [currentLanguage, setCurrentLanguage] = useState(getInitialLanguage);
+export interface Localization {
+  currentLanguage: Language;
+  setLanguage: (languageId: string) => void;
+  // Interface text in the current language, English where it isn't translated
+  t: Translate;
+}
 
-  useEffect(() => {
-    localStorage.setItem("lang", currentLanguage.id);
-  }, [currentLanguage]);
+export const getInitialLanguage = (): Language => {
+  // A film link opens in the language it was shared from
+  const routeLanguageId = parseFilmRoute()?.languageId;
+  const savedLanguageId = localStorage.getItem("lang");
+  return (
+    LANGUAGES.find((lang) => lang.id === routeLanguageId) ||
+    LANGUAGES.find((lang) => lang.id === savedLanguageId) ||
+    // First visit, go with the browser's languages
+    detectLanguage() ||
+    LANGUAGES[0]
+  );
+};
 
-  const setLanguage = (languageId: string) => {
-    const newLanguage = LANGUAGES.find((lang) => lang.id === languageId);
-    if (newLanguage) {
-      setCurrentLanguage(newLanguage);
-      window.location.reload();
-    } else {
-      console.warn(`Language not found: ${languageId}`);
-    }
-  };
+export const LocalizationContext = createContext<Localization | null>(null);
 
-  return {
-    currentLanguage,
-    setLanguage,
-  };
+// Current language shared by the whole app, see LocalizationProvider
+export function useLocalization() {
+  const localization = useContext(LocalizationContext);
+  if (!localization) {
+    throw new Error("useLocalization must be used inside a LocalizationProvider");
+  }
+  return localization;
 }
@@ -0,0 +1,36 @@
+import { useState, useEffect } from "react";
+import { useLocalization } from "./useLocalization";
+import type { WikiArticle } from "../components/WikiCard";
+import { fetchPlot, type Plot } from "../utils/plot";
+
+// Loads the plot section of an article, falling back to its intro
+export function usePlot(article: WikiArticle) {
+  const [plot, setPlot] = useState<Plot | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState(false);
+  const { currentLanguage } = useLocalization();
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const { signal } = controller;
+    setLoading(true);
+    setError(false);
+
+    fetchPlot(currentLanguage, article.pageid, { signal })
+      .then((result) => {
+        if (!signal.aborted) setPlot(result);
+      })
+      .catch((fetchError) => {
+        if (signal.aborted) return;
+        console.error(`Error fetching plot for ${article.title}:`, fetchError);
+        setError(true);
+      })
+      .finally(() => {
+        if (!signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [currentLanguage, article.pageid, article.title]);
+
+  return { plot, loading, error };
+}
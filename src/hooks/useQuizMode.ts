@@ -0,0 +1,13 @@
+import { createStoredValue } from "./storedValue";
+
+const quizModeStore = createStoredValue(
+  "quizMode",
+  (stored) => stored === "1",
+  (enabled) => (enabled ? "1" : "0")
+);
+
+// Persisted setting, turns feed cards into "which film is this?" questions
+export function useQuizMode() {
+  const quizMode = quizModeStore.useValue();
+  return { quizMode, setQuizMode: quizModeStore.set };
+}
@@ -0,0 +1,42 @@
+import { createStoredValue } from "./storedValue";
+
+export interface QuizScore {
+  correct: number;
+  answered: number;
+  streak: number;
+  bestStreak: number;
+}
+
+const EMPTY_SCORE: QuizScore = { correct: 0, answered: 0, streak: 0, bestStreak: 0 };
+
+const scoreStore = createStoredValue<QuizScore>(
+  "quizScore",
+  (stored) => {
+    try {
+      return stored ? { ...EMPTY_SCORE, ...JSON.parse(stored) } : EMPTY_SCORE;
+    } catch {
+      return EMPTY_SCORE;
+    }
+  },
+  (score) => JSON.stringify(score)
+);
+
+// Persisted quiz results shared by the header and every quiz card
+export function useQuizScore() {
+  const score = scoreStore.useValue();
+
+  const recordAnswer = (isCorrect: boolean) => {
+    const current = scoreStore.get();
+    const streak = isCorrect ? current.streak + 1 : 0;
+    scoreStore.set({
+      correct: current.correct + (isCorrect ? 1 : 0),
+      answered: current.answered + 1,
+      streak,
+      bestStreak: Math.max(current.bestStreak, streak),
+    });
+  };
+
+  const resetScore = () => scoreStore.set(EMPTY_SCORE);
+
+  return { score, recordAnswer, resetScore };
+}
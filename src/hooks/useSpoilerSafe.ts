@@ -0,0 +1,13 @@
+import { createStoredValue } from "./storedValue";
+
+const spoilerSafeStore = createStoredValue(
+  "spoilerSafe",
+  (stored) => stored === "1",
+  (enabled) => (enabled ? "1" : "0")
+);
+
+// Persisted setting shared by every component, hides plot endings when on
+export function useSpoilerSafe() {
+  const spoilerSafe = spoilerSafeStore.useValue();
+  return { spoilerSafe, setSpoilerSafe: spoilerSafeStore.set };
+}
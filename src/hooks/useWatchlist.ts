@@ -0,0 +1,97 @@
+import { useMemo, useSyncExternalStore } from "react";
+import { useLocalization } from "./useLocalization";
+import type { WikiArticle } from "../components/WikiCard";
+import { STORES, getAll, put, remove } from "../utils/db";
+
+export interface SavedFilm {
+  // `${languageId}:${pageid}`
+  key: string;
+  languageId: string;
+  article: WikiArticle;
+  savedAt: number;
+}
+
+const listeners = new Set<() => void>();
+let savedFilms: SavedFilm[] = [];
+let loadStarted = false;
+
+const emit = () => listeners.forEach((listener) => listener());
+
+const load = async () => {
+  try {
+    const stored = await getAll<SavedFilm>(STORES.watchlist);
+    // Keep anything saved while the database was still being read
+    savedFilms = [
+      ...stored,
+      ...savedFilms.filter((film) => !stored.some((saved) => saved.key === film.key)),
+    ];
+    emit();
+  } catch (error) {
+    console.error("Error loading watchlist:", error);
+  }
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  if (!loadStarted) {
+    loadStarted = true;
+    load();
+  }
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const getSnapshot = () => savedFilms;
+
+const filmKey = (languageId: string, pageid: string) => `${languageId}:${pageid}`;
+
+// Saved films of the current language, shared by every component
+export function useWatchlist() {
+  const { currentLanguage } = useLocalization();
+  const allFilms = useSyncExternalStore(subscribe, getSnapshot);
+
+  const films = useMemo(
+    () => allFilms.filter((film) => film.languageId === currentLanguage.id),
+    [allFilms, currentLanguage.id]
+  );
+
+  const isSaved = (pageid: string) =>
+    films.some((film) => film.article.pageid === pageid);
+
+  const saveFilm = async (article: WikiArticle) => {
+    const film: SavedFilm = {
+      key: filmKey(currentLanguage.id, article.pageid),
+      languageId: currentLanguage.id,
+      article,
+      savedAt: Date.now(),
+    };
+
+    savedFilms = [...savedFilms.filter((saved) => saved.key !== film.key), film];
+    emit();
+    try {
+      await put(STORES.watchlist, film);
+    } catch (error) {
+      console.error(`Error saving ${article.title}:`, error);
+    }
+  };
+
+  const removeFilm = async (pageid: string) => {
+    const key = filmKey(currentLanguage.id, pageid);
+
+    savedFilms = savedFilms.filter((saved) => saved.key !== key);
+    emit();
+    try {
+      await remove(STORES.watchlist, key);
+    } catch (error) {
+      console.error(`Error removing ${key} from watchlist:`, error);
+    }
+  };
+
+  return {
+    films,
+    isSaved,
+    saveFilm,
+    removeFilm,
+  };
+}
@@ -0,0 +1,195 @@
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { useWikiArticles } from "./useWikiArticles";
+import { useFeedFilters } from "./useFeedFilters";
+import { DEFAULT_FILTERS } from "../filters";
+import { LocalizationProvider } from "../components/LocalizationProvider";
+import { LANGUAGES } from "../languages";
+import { clearSeen, markSeen } from "../utils/seenHistory";
+import { setApiBackend } from "../utils/wikiApi";
+import { isUsableImage } from "../utils/images";
+import { fixtureBackend, loadFixtures, type ApiFixture, type FixtureSet } from "../utils/apiBackends";
+
+interface DetailsPage {
+  extract: string;
+  thumbnail?: { width: number; height: number };
+}
+
+const ENGLISH = LANGUAGES[0];
+const DETAILS_PARAMS = { prop: "extracts|info|pageimages|pageprops*" };
+
+let fixtures: FixtureSet;
+let categoryMembers: { pageid: number }[];
+let filmIds: Set<string>;
+
+const renderFeed = (extra: ApiFixture[] = []) => {
+  const backend = vi.fn(
+    fixtureBackend({
+      ...fixtures,
+      "en.wikipedia.org": [...extra, ...fixtures["en.wikipedia.org"]],
+    })
+  );
+  setApiBackend(backend);
+  const hook = renderHook(() => useWikiArticles(), { wrapper: LocalizationProvider });
+  return { ...hook, backend };
+};
+
+const loadNextPage = async (result: { current: ReturnType<typeof useWikiArticles> }) => {
+  act(() => result.current.fetchArticles());
+  await waitFor(() => expect(result.current.loading).toBe(false));
+};
+
+const pageIds = (articles: { pageid: string }[]) => articles.map((article) => article.pageid);
+
+describe("useWikiArticles", () => {
+  beforeAll(async () => {
+    fixtures = await loadFixtures();
+    const [members] = fixtures["en.wikipedia.org"];
+    categoryMembers = (members.response as { query: { categorymembers: { pageid: number }[] } })
+      .query.categorymembers;
+
+    // Every category member fit for a card, i.e. with a usable image and a real intro
+    const details = fixtures["en.wikipedia.org"].find(
+      (fixture) => fixture.params.prop === DETAILS_PARAMS.prop
+    )!;
+    const { pages } = (details.response as { query: { pages: Record<string, DetailsPage> } }).query;
+    filmIds = new Set(
+      Object.entries(pages)
+        .filter(([, page]) => page.thumbnail && isUsableImage(page.thumbnail) && page.extract.length > 50)
+        .map(([pageid]) => pageid)
+    );
+
+    // Expected failures are logged all over the feed code, keep the output readable
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+    clearSeen(ENGLISH);
+  });
+
+  it("fills the feed with films from the year categories", async () => {
+    const { result } = renderFeed();
+
+    await loadNextPage(result);
+
+    expect(result.current.articles.length).toBeGreaterThan(5);
+    expect(pageIds(result.current.articles).every((pageid) => filmIds.has(pageid))).toBe(true);
+  });
+
+  it("drops pages without a usable image or a real intro", async () => {
+    const { result } = renderFeed();
+
+    await loadNextPage(result);
+
+    const shown = pageIds(result.current.articles);
+    expect(shown).not.toContain("594325");
+    expect(shown).not.toContain("1316907");
+    // Banner-shaped page image
+    expect(shown).not.toContain("1407563");
+  });
+
+  it("buffers the next page and adds it without duplicates", async () => {
+    const { result } = renderFeed();
+
+    await loadNextPage(result);
+    await waitFor(() => expect(result.current.buffer.length).toBeGreaterThan(0));
+    const firstPage = result.current.articles.length;
+
+    act(() => result.current.fetchArticles());
+
+    const shown = pageIds(result.current.articles);
+    expect(shown.length).toBeGreaterThan(firstPage);
+    expect(new Set(shown).size).toBe(shown.length);
+  });
+
+  it("skips films seen in earlier sessions", async () => {
+    const seen = [...filmIds].slice(0, 20);
+    markSeen(ENGLISH, seen);
+    const { result } = renderFeed();
+
+    await loadNextPage(result);
+
+    expect(result.current.articles.length).toBeGreaterThan(0);
+    expect(pageIds(result.current.articles).some((pageid) => seen.includes(pageid))).toBe(false);
+  });
+
+  it("falls back to random films once every category member has been seen", async () => {
+    markSeen(ENGLISH, categoryMembers.map((member) => String(member.pageid)));
+    const { result, backend } = renderFeed();
+
+    await loadNextPage(result);
+
+    expect(backend.mock.calls.some(([url]) => url.includes("generator=random"))).toBe(true);
+    // Films among the random pages, minus the one already seen
+    expect(pageIds(result.current.articles).sort()).toEqual(["1069443", "170590", "277498"]);
+  });
+
+  it("shows films released on this day with the year they came out", async () => {
+    localStorage.setItem("feedMode", "onThisDay");
+    const { result, backend } = renderFeed();
+
+    await loadNextPage(result);
+
+    expect(backend.mock.calls.some(([url]) => url.startsWith("https://query.wikidata.org/"))).toBe(true);
+    expect(result.current.articles.map((article) => article.title).sort()).toEqual([
+      "Fight Club",
+      "Galaxy Quest",
+      "Office Space",
+      "The Iron Giant",
+      "The Matrix",
+      "Toy Story 2",
+    ]);
+    expect(result.current.articles.every((article) => article.anniversaryYear === 1999)).toBe(true);
+  });
+
+  it("starts a fresh feed in place when filters are applied", async () => {
+    const backend = vi.fn(fixtureBackend(fixtures));
+    setApiBackend(backend);
+    const { result } = renderHook(
+      () => ({ feed: useWikiArticles(), filters: useFeedFilters() }),
+      { wrapper: LocalizationProvider }
+    );
+
+    act(() => result.current.filters.applyFilters({ ...DEFAULT_FILTERS, decadeFrom: 1990, decadeTo: 1990 }));
+    expect(result.current.feed.articles).toEqual([]);
+    await waitFor(() => expect(result.current.feed.articles.length).toBeGreaterThan(0));
+
+    // Year categories listed earlier in this file may come from the cache
+    const years = backend.mock.calls
+      .map(([url]) => new URL(url).searchParams.get("cmtitle")?.match(/\d{4}/)?.[0])
+      .filter(Boolean)
+      .map(Number);
+    expect(years.every((year) => year >= 1990 && year <= 1999)).toBe(true);
+    act(() => result.current.filters.applyFilters(DEFAULT_FILTERS));
+  });
+
+  it("serves the same feed to everyone with the same ?seed=", async () => {
+    window.history.replaceState(null, "", "/?seed=movie-night");
+    const first = renderFeed();
+    await loadNextPage(first.result);
+    first.unmount();
+
+    // Even once all of these films have been seen
+    markSeen(ENGLISH, pageIds(first.result.current.articles));
+    const second = renderFeed();
+    await loadNextPage(second.result);
+    window.history.replaceState(null, "", "/");
+
+    expect(pageIds(second.result.current.articles)).toEqual(pageIds(first.result.current.articles));
+  });
+
+  it("retries a failed request and still fills the feed", async () => {
+    const { result, backend } = renderFeed([
+      { params: DETAILS_PARAMS, times: 1, status: 503, response: {}, headers: { "Retry-After": "0" } },
+    ]);
+
+    await loadNextPage(result);
+
+    const responses = await Promise.all(backend.mock.results.map((call) => call.value));
+    expect(responses.map((response) => response.status)).toContain(503);
+    expect(result.current.articles.length).toBeGreaterThan(5);
+  });
+});
@@ -1,24 +1,35 @@
 import {
   useState,
   useCallback,
+  useEffect,
   useRef,
 } from "react";
 import { useLocalization } from "./useLocalization";
+import { filterParams, useFeedFilters } from "./useFeedFilters";
+import { useFeedSource } from "./useFeedSource";
+import { useFeedMode } from "./useFeedMode";
 import type { WikiArticle } from "../components/WikiCard";
+import { apiGet, pagesOf, type RequestOptions, type WikiQueryResponse } from "../utils/wikiApi";
+import { fetchFilmMetadata } from "../utils/wikidata";
+import { getSeen } from "../utils/seenHistory";
+import { cacheArticles, getCachedArticles } from "../utils/articleCache";
+import { parseFilmRoute } from "../utils/routes";
+import { findSimilarFilms } from "../utils/similarFilms";
+import { resolveCategory } from "../utils/filmCategories";
+import { getCategoryMembers, type CategoryMember } from "../utils/categoryMembers";
+import { createRandom, getFeedSeed, pickRandom, shuffle, type Random } from "../utils/random";
+import { findAnniversaries, type Anniversary } from "../utils/onThisDay";
+import { isUsableImage, preloadCardImage } from "../utils/images";
+import {
+  getYearRange,
+  matchesFilters,
+  needsCategoryCheck,
+  pickCategoryGenre,
+  resolveFilterCategories,
+  sourceFilters,
+} from "../utils/filmFilters";
 
 // Type definitions for Wikipedia API responses
-interface WikiCategoryMember {
-  pageid: number;
-  ns: number;
-  title: string;
-}
-
-interface WikiCategoryResponse {
-  query?: {
-    categorymembers?: WikiCategoryMember[];
-  };
-}
-
 interface WikiThumbnail {
   source: string;
   width: number;
@@ -36,38 +47,20 @@ interface WikiPage {
   title: string;
   extract?: string;
   thumbnail?: WikiThumbnail;
+  // Full-size file, for the largest size worth asking for
+  original?: WikiThumbnail;
   canonicalurl?: string;
   varianttitles?: Record<string, string>;
   categories?: WikiCategory[];
+  pageprops?: { wikibase_item?: string };
 }
 
-interface WikiPagesResponse {
-  query: {
-    pages: Record<string, WikiPage>;
-  };
-}
+type WikiPagesResponse = WikiQueryResponse<WikiPage>;
 
-const preloadImage = (src: string): Promise<void> => {
-  return new Promise((resolve) => {
-    const img = new Image();
-    let resolved = false;
-    
-    const cleanup = () => {
-      if (!resolved) {
-        resolved = true;
-        resolve(); // Always resolve, never reject
-      }
-    };
-    
-    img.onload = cleanup;
-    img.onerror = cleanup; // Don't reject on error, just resolve
-    
-    // Shorter timeout and always resolve
-    setTimeout(cleanup, 2000);
-    
-    // Set src after setting up handlers
-    img.src = src;
-  });
+// Page image for a card, undefined when there's none or it's tiny or oddly shaped
+const cardThumbnail = (page: WikiPage): WikiArticle["thumbnail"] => {
+  if (!page.thumbnail?.source || !isUsableImage(page.original ?? page.thumbnail)) return undefined;
+  return { ...page.thumbnail, originalWidth: page.original?.width };
 };
 
 // Helper function to deduplicate articles by pageid
@@ -89,91 +82,251 @@ const mergeUniqueArticles = (existing: WikiArticle[], newArticles: WikiArticle[]
   return [...existing, ...uniqueNewArticles];
 };
 
-// Add retry logic for API calls
-const fetchWithRetry = async (url: string, retries = 2, delay = 1000): Promise<Response> => {
-  for (let i = 0; i <= retries; i++) {
-    try {
-      const response = await fetch(url);
-      if (response.ok) return response;
-      
-      if (response.status === 429 || response.status >= 500) {
-        // Rate limited or server error - retry
-        if (i < retries) {
-          await new Promise(resolve => setTimeout(resolve, delay * Math.pow(2, i)));
-          continue;
-        }
-      }
-      
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    } catch (error) {
-      if (i === retries) throw error;
-      await new Promise(resolve => setTimeout(resolve, delay * Math.pow(2, i)));
-    }
-  }
-  throw new Error('Max retries reached');
-};
-
 export function useWikiArticles() {
   const [articles, setArticles] = useState<WikiArticle[]>([]);
   const [loading, setLoading] = useState(false);
   const [buffer, setBuffer] = useState<WikiArticle[]>([]);
+  const [offline, setOffline] = useState(() => !navigator.onLine);
+  // Set when the last page couldn't be loaded at all, cleared by the next attempt
+  const [loadError, setLoadError] = useState(false);
+  // Film the "more like this" feed is based on, null for the random feed
+  const [seed, setSeed] = useState<WikiArticle | null>(null);
   const { currentLanguage } = useLocalization();
+  const { source } = useFeedSource();
+  const { mode } = useFeedMode();
+  const filters = sourceFilters(useFeedFilters().filters, source);
+  const feedKey = `${currentLanguage.id}:${source.id}:${mode}:${filterParams(filters)}`;
+  // From a ?seed= link: everyone with the same link scrolls the same feed
+  const [feedSeed] = useState(getFeedSeed);
+
+  // Drop the old feed's cards in the same render the language, source, mode
+  // or filters change, so they're never shown or marked seen under the new one
+  const [renderedFeedKey, setRenderedFeedKey] = useState(feedKey);
+  if (renderedFeedKey !== feedKey) {
+    setRenderedFeedKey(feedKey);
+    setArticles([]);
+    setBuffer([]);
+    setSeed(null);
+    setLoading(false);
+    setLoadError(false);
+  }
   
-  // Cache for film titles to avoid repeated category queries
-  const filmCacheRef = useRef<Map<number, WikiCategoryMember[]>>(new Map());
   const lastFetchTimeRef = useRef<number>(0);
+  // Film from a shared /film/:lang/:pageid link, shown before the random feed
+  const startPageIdRef = useRef<string | null>(parseFilmRoute()?.pageid ?? null);
   
   // Use ref to store the latest fetchArticles function
   const fetchArticlesRef = useRef<(forBuffer?: boolean) => Promise<void>>(() => Promise.resolve());
+  // Bumped whenever the feed switches source, so late results of the old one are dropped
+  const feedGenerationRef = useRef(0);
+  const similarOffsetRef = useRef<number | null>(0);
+  // Pages drawn so far in this feed, each seeded page gets its own generator
+  const feedPageRef = useRef(0);
+  // Anniversaries not shown yet, in feed order, null until the first "On this day" page
+  const anniversariesRef = useRef<Anniversary[] | null>(null);
+  // Aborted whenever the feed changes, cancelling every request still in flight
+  const abortRef = useRef(new AbortController());
+
+  // Buffer prefetches queue behind whatever the user is waiting for
+  const requestOptions = (forBuffer = false): RequestOptions => ({
+    signal: abortRef.current.signal,
+    background: forBuffer,
+  });
+
+  /**
+   * Random numbers for the next page of the feed. With a feed seed they're
+   * derived from the seed and the page number, so pages come out the same
+   * however the requests race. Pages are numbered when they're requested.
+   */
+  const nextPageRandom = (): Random => {
+    const page = feedPageRef.current++;
+    return feedSeed ? createRandom(`${feedSeed}:${feedKey}:${page}`) : Math.random;
+  };
+
+  // Films seen in earlier sessions are skipped, except in a seeded feed that has to match everyone else's
+  const getExcludedIds = () => (feedSeed ? new Set<string>() : getSeen(currentLanguage));
 
-  const getWeightedFilmYear = () => {
-    const currentYear = new Date().getFullYear();
-    const startYear = 1929;
-    const random = Math.random();
+  const getWeightedFilmYear = (random: Random) => {
+    const { start, end } = getYearRange(filters, source);
     return Math.floor(
-      currentYear - Math.pow(random, 3) * (currentYear - startYear)
+      end - Math.pow(random(), 3) * (end - start)
     );
   };
 
-  const fetchFilmsForYear = async (year: number): Promise<WikiCategoryMember[]> => {
-    // Check cache first
-    if (filmCacheRef.current.has(year)) {
-      return filmCacheRef.current.get(year)!;
+  const fetchFilmsForYear = async (
+    year: number,
+    qualifier: string | undefined,
+    options: RequestOptions
+  ): Promise<CategoryMember[]> => {
+    try {
+      // Wikis without "<year> <genre> films" categories get the year's films,
+      // the genre filter is checked on every page's categories anyway
+      const category =
+        (await resolveCategory(currentLanguage, source.yearCategory(year, qualifier), options)) ??
+        (filters.genres.length > 0
+          ? await resolveCategory(currentLanguage, source.yearCategory(year), options)
+          : null);
+      if (!category) return [];
+
+      // Cached per language and category, so the first visit pays for the full listing
+      return await getCategoryMembers(currentLanguage, category, options);
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      console.error(`Error fetching films for ${year}:`, error);
+      return [];
     }
+  };
+
+  // Adds Wikidata metadata to already shown articles, cards simply go without on failure
+  const enrichArticles = async (newArticles: WikiArticle[]) => {
+    const ids = newArticles
+      .map(article => article.wikidataId)
+      .filter((id): id is string => !!id);
+    if (ids.length === 0) return;
 
     try {
-      const url = currentLanguage.api + new URLSearchParams({
-        action: "query",
-        format: "json",
-        list: "categorymembers",
-        cmtitle: `Category:${year} films`,
-        cmnamespace: "0",
-        cmlimit: "500",
-        origin: "*",
+      const metadata = await fetchFilmMetadata(currentLanguage, ids, requestOptions(true));
+      const enrich = (list: WikiArticle[]) =>
+        list.map(article =>
+          article.wikidataId && metadata[article.wikidataId]
+            ? { ...article, metadata: metadata[article.wikidataId] }
+            : article
+        );
+
+      setArticles(enrich);
+      setBuffer(enrich);
+    } catch (error) {
+      console.warn("Skipping Wikidata metadata:", error);
+    }
+  };
+
+  // Fetches extracts and images for the given titles, dropping pages unfit for a card
+  const fetchArticleDetails = async (
+    titles: string[],
+    options: RequestOptions,
+    applyFilters = true
+  ): Promise<WikiArticle[]> => {
+    // Split into smaller batches to avoid URL length limits
+    const batchSize = 10;
+    const batches = [];
+    for (let i = 0; i < titles.length; i += batchSize) {
+      batches.push(titles.slice(i, i + batchSize));
+    }
+
+    const checkCategories = applyFilters && needsCategoryCheck(filters);
+    const filterCategories = checkCategories
+      ? await resolveFilterCategories(currentLanguage, filters, options)
+      : null;
+
+    // The API client caps how many of these run at once
+    const batchResults = await Promise.all(batches.map(async (batch) => {
+      try {
+        const detailsData = await apiGet<WikiPagesResponse>(currentLanguage.api, {
+          action: "query",
+          titles: batch.join("|"),
+          prop: checkCategories
+            ? "extracts|info|pageimages|pageprops|categories"
+            : "extracts|info|pageimages|pageprops",
+          inprop: "url|varianttitles",
+          exintro: "1",
+          exlimit: "max",
+          exsentences: "3",
+          explaintext: "1",
+          piprop: "thumbnail|original",
+          pithumbsize: "600",
+          ppprop: "wikibase_item",
+          variant: currentLanguage.id,
+          ...(checkCategories && { cllimit: "max", clshow: "!hidden" }),
+        }, options);
+
+        return pagesOf(detailsData)
+          .filter(
+            (page: WikiPage) =>
+              cardThumbnail(page) &&
+              page.canonicalurl &&
+              page.extract &&
+              page.extract.length > 50 &&
+              (!filterCategories ||
+                matchesFilters(
+                  page.categories?.map(cat => cat.title) || [],
+                  filters,
+                  source,
+                  filterCategories
+                ))
+          )
+          .map(
+            (page: WikiPage): WikiArticle => ({
+              title: page.title,
+              displaytitle:
+                page.varianttitles?.[currentLanguage.id] || page.title,
+              extract: page.extract!,
+              pageid: page.pageid.toString(),
+              thumbnail: cardThumbnail(page),
+              url: page.canonicalurl!,
+              wikidataId: page.pageprops?.wikibase_item,
+            })
+          );
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        console.warn(`Batch failed, continuing with others:`, error);
+        return [];
+      }
+    }));
+
+    return deduplicateArticles(batchResults.flat());
+  };
+
+  /**
+   * Appends freshly fetched articles to the feed or the buffer, unless the
+   * feed was switched since the fetch started. A full page of new articles
+   * schedules the next buffer fetch.
+   */
+  const addArticles = (
+    newArticles: WikiArticle[],
+    forBuffer: boolean,
+    generation: number,
+    bufferThreshold: number
+  ) => {
+    if (generation !== feedGenerationRef.current) return;
+
+    // Fire and forget, cards don't wait for their images
+    newArticles.slice(0, 3).forEach(preloadCardImage);
+
+    if (forBuffer) {
+      setBuffer(prevBuffer => {
+        const mergedBuffer = mergeUniqueArticles(prevBuffer, newArticles);
+        return deduplicateArticles(mergedBuffer);
+      });
+    } else {
+      setArticles(prev => {
+        const mergedArticles = mergeUniqueArticles(prev, newArticles);
+        return deduplicateArticles(mergedArticles);
       });
 
-      const response = await fetchWithRetry(url);
-      const data: WikiCategoryResponse = await response.json();
-      const films = data.query?.categorymembers || [];
-      
-      // Cache the result
-      filmCacheRef.current.set(year, films);
-      
-      return films;
-    } catch (error) {
-      console.error(`Error fetching films for ${year}:`, error);
-      return [];
+      if (newArticles.length > bufferThreshold) {
+        fetchArticlesRef.current?.(true);
+      }
     }
+
+    enrichArticles(newArticles);
+    cacheArticles(currentLanguage, newArticles);
   };
 
   const fetchFilmArticles = async (forBuffer = false) => {
+    const generation = feedGenerationRef.current;
+    const random = nextPageRandom();
     try {
       const numYears = 2;
       const yearPromises = [];
       
       for (let i = 0; i < numYears; i++) {
-        const randomYear = getWeightedFilmYear();
-        yearPromises.push(fetchFilmsForYear(randomYear));
+        const randomYear = getWeightedFilmYear(random);
+        const qualifier = source.qualifiers
+          ? pickRandom(source.qualifiers, random)
+          : pickCategoryGenre(filters, random);
+        yearPromises.push(
+          fetchFilmsForYear(randomYear, qualifier, requestOptions(forBuffer))
+        );
       }
 
       const yearResults = await Promise.all(yearPromises);
@@ -183,112 +336,26 @@ export function useWikiArticles() {
         throw new Error("No films found in year-based search");
       }
 
-      // Remove duplicates and get more films
+      // Remove duplicates and films seen in earlier sessions
+      const seen = getExcludedIds();
       const uniqueFilms = Array.from(
         new Map(allFilms.map(film => [film.pageid, film])).values()
-      );
+      ).filter(film => !seen.has(film.pageid.toString()));
+
+      if (uniqueFilms.length === 0) {
+        throw new Error("Every film found has been seen already");
+      }
 
       // Randomly select more films but make fewer API calls
-      const shuffled = [...uniqueFilms].sort(() => Math.random() - 0.5);
+      const shuffled = shuffle(uniqueFilms, random);
       const selectedTitles = shuffled
         .slice(0, 30) // Increased from 20 to 30
-        .map((film: WikiCategoryMember) => film.title);
-
-      // Split into smaller batches to avoid URL length limits
-      const batchSize = 10;
-      const batches = [];
-      for (let i = 0; i < selectedTitles.length; i += batchSize) {
-        batches.push(selectedTitles.slice(i, i + batchSize));
-      }
-
-      const allNewArticles: WikiArticle[] = [];
-
-      // Process batches sequentially to avoid rate limiting
-      for (const batch of batches) {
-        try {
-          const url = currentLanguage.api + new URLSearchParams({
-            action: "query",
-            format: "json",
-            titles: batch.join("|"),
-            prop: "extracts|info|pageimages",
-            inprop: "url|varianttitles",
-            exintro: "1",
-            exlimit: "max",
-            exsentences: "3",
-            explaintext: "1",
-            piprop: "thumbnail",
-            pithumbsize: "600",
-            origin: "*",
-            variant: currentLanguage.id,
-          });
-
-          const detailsResponse = await fetchWithRetry(url);
-          const detailsData: WikiPagesResponse = await detailsResponse.json();
-
-          const batchArticles = Object.values(detailsData.query.pages)
-            .filter(
-              (page: WikiPage) =>
-                page.thumbnail &&
-                page.thumbnail.source &&
-                page.canonicalurl &&
-                page.extract &&
-                page.extract.length > 50
-            )
-            .map(
-              (page: WikiPage): WikiArticle => ({
-                title: page.title,
-                displaytitle:
-                  page.varianttitles?.[currentLanguage.id] || page.title,
-                extract: page.extract!,
-                pageid: page.pageid.toString(),
-                thumbnail: page.thumbnail!,
-                url: page.canonicalurl!,
-              })
-            );
-
-          allNewArticles.push(...batchArticles);
-          
-          // Add small delay between batches
-          if (batches.indexOf(batch) < batches.length - 1) {
-            await new Promise(resolve => setTimeout(resolve, 200));
-          }
-        } catch (error) {
-          console.warn(`Batch failed, continuing with others:`, error);
-          continue;
-        }
-      }
+        .map((film: CategoryMember) => film.title);
 
-      // Deduplicate the new articles
-      const uniqueNewArticles = deduplicateArticles(allNewArticles);
+      const uniqueNewArticles = await fetchArticleDetails(selectedTitles, requestOptions(forBuffer));
 
-      // Preload only first few images with fire-and-forget approach
-      const imagesToPreload = uniqueNewArticles.slice(0, 3);
-      
-      // Fire and forget - don't wait for image preloading to complete
-      imagesToPreload
-        .filter((article) => article.thumbnail)
-        .forEach((article) => {
-          preloadImage(article.thumbnail!.source).catch(() => {
-            // Silently ignore preload failures
-          });
-        });
-
-      if (forBuffer) {
-        setBuffer(prevBuffer => {
-          const mergedBuffer = mergeUniqueArticles(prevBuffer, uniqueNewArticles);
-          return deduplicateArticles(mergedBuffer);
-        });
-      } else {
-        setArticles(prev => {
-          const mergedArticles = mergeUniqueArticles(prev, uniqueNewArticles);
-          return deduplicateArticles(mergedArticles);
-        });
-        
-        // Only fetch buffer if we got enough articles and enough time has passed
-        if (uniqueNewArticles.length > 5) {
-          setTimeout(() => fetchArticlesRef.current?.(true), 5000);
-        }
-      }
+      // Only fetch buffer if we got enough articles
+      addArticles(uniqueNewArticles, forBuffer, generation, 5);
 
       return uniqueNewArticles;
     } catch (error) {
@@ -297,49 +364,87 @@ export function useWikiArticles() {
     }
   };
 
+  // "On this day": films released on today's date in earlier years, 30 per page from one shuffled list
+  const fetchAnniversaryArticles = async (forBuffer = false) => {
+    const generation = feedGenerationRef.current;
+    const random = nextPageRandom();
+
+    if (!anniversariesRef.current) {
+      const anniversaries = await findAnniversaries(
+        currentLanguage,
+        source,
+        new Date(),
+        getYearRange(filters, source),
+        requestOptions(forBuffer)
+      );
+      if (generation !== feedGenerationRef.current) return;
+      anniversariesRef.current = shuffle(anniversaries, random);
+    }
+
+    const page = anniversariesRef.current.splice(0, 30);
+    if (page.length === 0) return;
+
+    const years = new Map(page.map(anniversary => [anniversary.title, anniversary.year]));
+    const seen = getExcludedIds();
+    const newArticles = (await fetchArticleDetails(
+      page.map(anniversary => anniversary.title),
+      requestOptions(forBuffer)
+    ))
+      .filter(article => !seen.has(article.pageid))
+      .map(article => ({ ...article, anniversaryYear: years.get(article.title) }));
+
+    addArticles(newArticles, forBuffer, generation, 5);
+  };
+
+  // generator=random is random on Wikipedia's side, so this can't follow a feed seed
   const fetchRandomFilmsWithFilter = async (forBuffer = false) => {
+    const generation = feedGenerationRef.current;
     try {
-      const url = currentLanguage.api + new URLSearchParams({
+      const data = await apiGet<WikiPagesResponse>(currentLanguage.api, {
         action: "query",
-        format: "json",
         generator: "random",
         grnnamespace: "0",
-        prop: "extracts|info|pageimages|categories",
+        prop: "extracts|info|pageimages|pageprops|categories",
         inprop: "url|varianttitles",
         grnlimit: "30",
         exintro: "1",
         exlimit: "max",
         exsentences: "3",
         explaintext: "1",
-        piprop: "thumbnail",
+        piprop: "thumbnail|original",
         pithumbsize: "600",
+        ppprop: "wikibase_item",
         cllimit: "20",
-        origin: "*",
         variant: currentLanguage.id,
-      });
-
-      const response = await fetchWithRetry(url);
-      const data: WikiPagesResponse = await response.json();
+      }, requestOptions(forBuffer));
+      const filterCategories = await resolveFilterCategories(
+        currentLanguage,
+        filters,
+        requestOptions(forBuffer)
+      );
+      const seen = getExcludedIds();
 
-      const filmArticles = Object.values(data.query.pages)
+      const filmArticles = pagesOf(data)
         .filter((page: WikiPage) => {
-          const isFilm =
-            page.categories?.some(
-              (cat: WikiCategory) =>
-                cat.title.toLowerCase().includes("film") ||
-                cat.title.toLowerCase().includes("movie") ||
-                cat.title.toLowerCase().includes("cinema")
-            ) ||
-            page.title.toLowerCase().includes("film") ||
-            page.extract?.toLowerCase().includes("film") ||
-            page.extract?.toLowerCase().includes("movie") ||
-            page.extract?.toLowerCase().includes("directed by") ||
-            page.extract?.toLowerCase().includes("starring");
+          if (seen.has(page.pageid.toString())) return false;
+
+          const mentionsSource = (text = "") =>
+            source.keywords.some(keyword => text.toLowerCase().includes(keyword));
+          const isWork =
+            page.categories?.some((cat: WikiCategory) => mentionsSource(cat.title)) ||
+            mentionsSource(page.title) ||
+            mentionsSource(page.extract);
 
           return (
-            isFilm &&
-            page.thumbnail &&
-            page.thumbnail.source &&
+            isWork &&
+            matchesFilters(
+              page.categories?.map(cat => cat.title) || [],
+              filters,
+              source,
+              filterCategories,
+              true
+            ) &&
+            cardThumbnail(page) &&
             page.canonicalurl &&
             page.extract &&
             page.extract.length > 50
@@ -352,46 +457,120 @@ export function useWikiArticles() {
               page.varianttitles?.[currentLanguage.id] || page.title,
             extract: page.extract!,
             pageid: page.pageid.toString(),
-            thumbnail: page.thumbnail!,
+            thumbnail: cardThumbnail(page),
             url: page.canonicalurl!,
             categories: page.categories?.map(cat => cat.title) || [],
+            wikidataId: page.pageprops?.wikibase_item,
           })
         )
         .slice(0, 15);
 
       const uniqueFilmArticles = deduplicateArticles(filmArticles);
 
-      // Fire and forget image preloading
-      const imagesToPreload = uniqueFilmArticles.slice(0, 2);
-      imagesToPreload
-        .filter((article) => article.thumbnail)
-        .forEach((article) => {
-          preloadImage(article.thumbnail!.source).catch(() => {
-            // Silently ignore preload failures
-          });
-        });
-
-      if (forBuffer) {
-        setBuffer(prevBuffer => {
-          const mergedBuffer = mergeUniqueArticles(prevBuffer, uniqueFilmArticles);
-          return deduplicateArticles(mergedBuffer);
-        });
-      } else {
-        setArticles(prev => {
-          const mergedArticles = mergeUniqueArticles(prev, uniqueFilmArticles);
-          return deduplicateArticles(mergedArticles);
-        });
-        
-        if (uniqueFilmArticles.length > 3) {
-          setTimeout(() => fetchArticlesRef.current?.(true), 5000);
-        }
-      }
+      addArticles(uniqueFilmArticles, forBuffer, generation, 3);
     } catch (error) {
       console.error("Error in fallback film fetch:", error);
       throw error;
     }
   };
 
+  const fetchSimilarFilmArticles = async (seedArticle: WikiArticle, forBuffer = false) => {
+    const generation = feedGenerationRef.current;
+    const random = nextPageRandom();
+    const excludeIds = getExcludedIds();
+    [...articles, ...buffer].forEach(article => excludeIds.add(article.pageid));
+
+    const { titles, nextOffset } = await findSimilarFilms(
+      currentLanguage,
+      source,
+      seedArticle,
+      similarOffsetRef.current,
+      excludeIds,
+      random,
+      requestOptions(forBuffer)
+    );
+    if (generation !== feedGenerationRef.current) return;
+    similarOffsetRef.current = nextOffset;
+
+    const newArticles = await fetchArticleDetails(titles, requestOptions(forBuffer), false);
+    addArticles(newArticles, forBuffer, generation, 3);
+  };
+
+  // Fetches a single film by page id, for shared links and search results
+  const fetchFilmById = async (pageid: string): Promise<WikiArticle | null> => {
+    const data = await apiGet<WikiPagesResponse>(currentLanguage.api, {
+      action: "query",
+      pageids: pageid,
+      prop: "extracts|info|pageimages|pageprops",
+      inprop: "url|varianttitles",
+      exintro: "1",
+      exsentences: "3",
+      explaintext: "1",
+      piprop: "thumbnail|original",
+      pithumbsize: "600",
+      ppprop: "wikibase_item",
+      variant: currentLanguage.id,
+    }, requestOptions());
+    const page = data.query?.pages?.[pageid];
+
+    // Unlike random picks, a film asked for by id is shown even without an image
+    if (!page || !page.canonicalurl || !page.extract) return null;
+
+    return {
+      title: page.title,
+      displaytitle: page.varianttitles?.[currentLanguage.id] || page.title,
+      extract: page.extract,
+      pageid: page.pageid.toString(),
+      thumbnail: cardThumbnail(page),
+      url: page.canonicalurl,
+      wikidataId: page.pageprops?.wikibase_item,
+    };
+  };
+
+  const fetchStartFilm = async (pageid: string) => {
+    try {
+      const film = await fetchFilmById(pageid);
+      if (!film) {
+        console.warn(`Linked film ${pageid} not found, starting a random feed`);
+        return;
+      }
+
+      document.title = `${film.displaytitle} · wiki_plot`;
+      setArticles(prev => mergeUniqueArticles([film], prev));
+      enrichArticles([film]);
+    } catch (error) {
+      console.error(`Error fetching linked film ${pageid}:`, error);
+    }
+  };
+
+  // Puts a film at the top of the feed, the random stream carries on after it
+  const openFilm = async (pageid: string): Promise<boolean> => {
+    try {
+      const film = await fetchFilmById(pageid);
+      if (!film) return false;
+
+      insertArticle(film, 0);
+      enrichArticles([film]);
+      return true;
+    } catch (error) {
+      console.error(`Error opening film ${pageid}:`, error);
+      return false;
+    }
+  };
+
+  // Serves previously fetched cards when Wikipedia can't be reached
+  const fetchCachedArticles = async (forBuffer = false) => {
+    const excludeIds = new Set([...articles, ...buffer].map(article => article.pageid));
+    const cachedArticles = (await getCachedArticles(currentLanguage, excludeIds)).slice(0, 10);
+    if (cachedArticles.length === 0) return;
+
+    if (forBuffer) {
+      setBuffer(prevBuffer => mergeUniqueArticles(prevBuffer, cachedArticles));
+    } else {
+      setArticles(prev => mergeUniqueArticles(prev, cachedArticles));
+    }
+  };
+
   const fetchArticles = async (forBuffer = false) => {
     // Rate limiting: prevent too frequent calls
     const now = Date.now();
@@ -401,26 +580,99 @@ export function useWikiArticles() {
     }
 
     if (loading && !forBuffer) return;
+    const generation = feedGenerationRef.current;
+    const { signal } = abortRef.current;
     if (!forBuffer) {
       setLoading(true);
+      setLoadError(false);
       lastFetchTimeRef.current = now;
     }
 
+    if (!forBuffer && startPageIdRef.current) {
+      const pageid = startPageIdRef.current;
+      startPageIdRef.current = null;
+      await fetchStartFilm(pageid);
+    }
+
     try {
-      await fetchFilmArticles(forBuffer);
-    } catch (error) {
-      console.error("Primary fetch method failed, trying fallback:", error);
-      
-      try {
-        await fetchRandomFilmsWithFilter(forBuffer);
-      } catch (fallbackError) {
-        console.error("Fallback method also failed:", fallbackError);
+      if (!navigator.onLine) {
+        await fetchCachedArticles(forBuffer);
+      } else if (seed) {
+        try {
+          await fetchSimilarFilmArticles(seed, forBuffer);
+        } catch (error) {
+          console.error("Similar films fetch failed:", error);
+          if (!forBuffer && !signal.aborted) setLoadError(true);
+        }
+      } else if (mode === "onThisDay") {
+        // Random fallbacks would break the theme, rather show fewer cards
+        try {
+          await fetchAnniversaryArticles(forBuffer);
+        } catch (error) {
+          console.error("On this day fetch failed:", error);
+          if (!forBuffer && !signal.aborted) setLoadError(true);
+        }
+      } else {
+        try {
+          await fetchFilmArticles(forBuffer);
+        } catch (error) {
+          if (signal.aborted) throw error;
+          console.error("Primary fetch method failed, trying fallback:", error);
+          
+          try {
+            await fetchRandomFilmsWithFilter(forBuffer);
+          } catch (fallbackError) {
+            console.error("Fallback method also failed, using cached articles:", fallbackError);
+            if (!forBuffer) setLoadError(true);
+            await fetchCachedArticles(forBuffer);
+          }
+        }
+      }
+    } catch (cacheError) {
+      if (!signal.aborted) {
+        console.error("Cached articles unavailable:", cacheError);
+        if (!forBuffer) setLoadError(true);
       }
     }
 
-    if (!forBuffer) setLoading(false);
+    // A feed reset while this was loading has taken over the spinner
+    if (!forBuffer && generation === feedGenerationRef.current) setLoading(false);
   };
 
+  // Cancel whatever is still loading when the feed goes away
+  useEffect(() => {
+    // StrictMode remounts reuse the ref, start over with a live controller
+    if (abortRef.current.signal.aborted) abortRef.current = new AbortController();
+    return () => abortRef.current.abort();
+  }, []);
+
+  useEffect(() => {
+    const updateOnlineStatus = () => setOffline(!navigator.onLine);
+    window.addEventListener("online", updateOnlineStatus);
+    window.addEventListener("offline", updateOnlineStatus);
+    return () => {
+      window.removeEventListener("online", updateOnlineStatus);
+      window.removeEventListener("offline", updateOnlineStatus);
+    };
+  }, []);
+
+  // Switching language, source, mode or filters starts a fresh feed in place, no reload
+  const feedKeyRef = useRef(feedKey);
+  useEffect(() => {
+    if (feedKeyRef.current === feedKey) return;
+    feedKeyRef.current = feedKey;
+
+    abortRef.current.abort();
+    abortRef.current = new AbortController();
+    feedGenerationRef.current += 1;
+    similarOffsetRef.current = 0;
+    feedPageRef.current = 0;
+    anniversariesRef.current = null;
+    lastFetchTimeRef.current = 0;
+    startPageIdRef.current = null;
+    fetchArticlesRef.current(false);
+  }, [feedKey]);
+
   // Update the ref whenever fetchArticles changes
   fetchArticlesRef.current = fetchArticles;
 
@@ -432,15 +684,62 @@ export function useWikiArticles() {
       });
       setBuffer([]);
       // Fetch new buffer after using current buffer
-      setTimeout(() => fetchArticlesRef.current?.(true), 3000);
+      fetchArticlesRef.current?.(true);
     } else {
       fetchArticlesRef.current?.(false);
     }
   }, [buffer]);
 
+  // Puts an article into the feed at `index`, moving it if it's already there
+  const insertArticle = useCallback((article: WikiArticle, index: number) => {
+    setArticles(prev => {
+      const rest = prev.filter(existing => existing.pageid !== article.pageid);
+      return [...rest.slice(0, index), article, ...rest.slice(index)];
+    });
+  }, []);
+
+  /**
+   * Switches what comes after the card at `index`: films like `seedArticle`,
+   * or the feed's own mode again when it's null. Cards already loaded past that
+   * point and the buffer are dropped so the switch shows up on the next swipe.
+   */
+  const switchFeed = async (seedArticle: WikiArticle | null, index: number) => {
+    feedGenerationRef.current += 1;
+    similarOffsetRef.current = 0;
+    setSeed(seedArticle);
+    setArticles(prev => prev.slice(0, index + 1));
+    setBuffer([]);
+
+    setLoading(true);
+    setLoadError(false);
+    const generation = feedGenerationRef.current;
+    try {
+      if (seedArticle) {
+        await fetchSimilarFilmArticles(seedArticle);
+      } else if (mode === "onThisDay") {
+        await fetchAnniversaryArticles();
+      } else {
+        await fetchFilmArticles();
+      }
+    } catch (error) {
+      console.error("Feed switch fetch failed:", error);
+      if (generation === feedGenerationRef.current) setLoadError(true);
+    } finally {
+      if (generation === feedGenerationRef.current) setLoading(false);
+    }
+  };
+
   return {
     articles,
+    buffer,
     loading,
+    loadError,
+    offline,
     fetchArticles: getMoreArticles,
+    insertArticle,
+    openFilm,
+    seed,
+    startSimilarFeed: (article: WikiArticle, index: number) => switchFeed(article, index),
+    exitSimilarFeed: (index: number) => switchFeed(null, index),
   };
 }
\ No newline at end of file
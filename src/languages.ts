@@ -2,6 +2,7 @@ export const LANGUAGES = [
   {
     id: "en",
     name: "English",
+    englishName: "English",
     flag: "https://hatscripts.github.io/circle-flags/flags/us.svg",
     api: "https://en.wikipedia.org/w/api.php?",
     article: "https://en.wikipedia.org/wiki/",
@@ -9,6 +10,7 @@ export const LANGUAGES = [
   {
     id: "ar",
     name: "العربية",
+    englishName: "Arabic",
     flag: "https://hatscripts.github.io/circle-flags/flags/sa.svg",
     api: "https://ar.wikipedia.org/w/api.php?",
     article: "https://ar.wikipedia.org/wiki/",
@@ -16,6 +18,7 @@ export const LANGUAGES = [
   {
     id: "bn",
     name: "বাংলা",
+    englishName: "Bengali",
     flag: "https://hatscripts.github.io/circle-flags/flags/bd.svg",
     api: "https://bn.wikipedia.org/w/api.php?",
     article: "https://bn.wikipedia.org/wiki/",
@@ -23,6 +26,7 @@ export const LANGUAGES = [
   {
     id: "ca",
     name: "Català",
+    englishName: "Catalan",
     flag: "https://hatscripts.github.io/circle-flags/flags/es-ct.svg",
     api: "https://ca.wikipedia.org/w/api.php?",
     article: "https://ca.wikipedia.org/wiki/",
@@ -30,6 +34,7 @@ export const LANGUAGES = [
   {
     id: "cs",
     name: "Čeština",
+    englishName: "Czech",
     flag: "https://hatscripts.github.io/circle-flags/flags/cz.svg",
     api: "https://cs.wikipedia.org/w/api.php?",
     article: "https://cs.wikipedia.org/wiki/",
@@ -37,6 +42,7 @@ export const LANGUAGES = [
   {
     id: "de",
     name: "Deutsch",
+    englishName: "German",
     flag: "https://hatscripts.github.io/circle-flags/flags/de.svg",
     api: "https://de.wikipedia.org/w/api.php?",
     article: "https://de.wikipedia.org/wiki/",
@@ -44,6 +50,7 @@ export const LANGUAGES = [
   {
     id: "eo",
     name: "Esperanto",
+    englishName: "Esperanto",
     flag: "https://upload.wikimedia.org/wikipedia/commons/2/20/Verda_stelo_%28unukolora%29.svg",
     api: "https://eo.wikipedia.org/w/api.php?",
     article: "https://eo.wikipedia.org/wiki/",
@@ -51,6 +58,7 @@ export const LANGUAGES = [
   {
     id: "es",
     name: "Español",
+    englishName: "Spanish",
     flag: "https://hatscripts.github.io/circle-flags/flags/es.svg",
     api: "https://es.wikipedia.org/w/api.php?",
     article: "https://es.wikipedia.org/wiki/",
@@ -58,6 +66,7 @@ export const LANGUAGES = [
   {
     id: "eu",
     name: "Euskara",
+    englishName: "Basque",
     flag: "https://hatscripts.github.io/circle-flags/flags/es-pv.svg",
     api: "https://eu.wikipedia.org/w/api.php?",
     article: "https://eu.wikipedia.org/wiki/",
@@ -65,6 +74,7 @@ export const LANGUAGES = [
   {
     id: "fa",
     name: "فارسی",
+    englishName: "Persian",
     flag: "https://hatscripts.github.io/circle-flags/flags/ir.svg",
     api: "https://fa.wikipedia.org/w/api.php?",
     article: "https://fa.wikipedia.org/wiki/",
@@ -72,6 +82,7 @@ export const LANGUAGES = [
   {
     id: "fi",
     name: "Suomi",
+    englishName: "Finnish",
     flag: "https://hatscripts.github.io/circle-flags/flags/fi.svg",
     api: "https://fi.wikipedia.org/w/api.php?",
     article: "https://fi.wikipedia.org/wiki/",
@@ -79,6 +90,7 @@ export const LANGUAGES = [
   {
     id: "fr",
     name: "Français",
+    englishName: "French",
     flag: "https://hatscripts.github.io/circle-flags/flags/fr.svg",
     api: "https://fr.wikipedia.org/w/api.php?",
     article: "https://fr.wikipedia.org/wiki/",
@@ -86,6 +98,7 @@ export const LANGUAGES = [
   {
     id: "el",
     name: "Ελληνικά",
+    englishName: "Greek",
     flag: "https://hatscripts.github.io/circle-flags/flags/gr.svg",
     api: "https://el.wikipedia.org/w/api.php?",
     article: "https://el.wikipedia.org/wiki/",
@@ -93,6 +106,7 @@ export const LANGUAGES = [
   {
     id: "gan-hans",
     name: "赣语（简体）",
+    englishName: "Gan Chinese (Simplified)",
     flag: "https://hatscripts.github.io/circle-flags/flags/cn.svg",
     api: "https://gan.wikipedia.org/w/api.php?",
     article: "https://gan.wikipedia.org/wiki/",
@@ -100,6 +114,7 @@ export const LANGUAGES = [
   {
     id: "gan-hant",
     name: "贛語（繁體）",
+    englishName: "Gan Chinese (Traditional)",
     flag: "https://hatscripts.github.io/circle-flags/flags/cn.svg",
     api: "https://gan.wikipedia.org/w/api.php?",
     article: "https://gan.wikipedia.org/wiki/",
@@ -107,6 +122,7 @@ export const LANGUAGES = [
   {
     id: "he",
     name: "עברית",
+    englishName: "Hebrew",
     flag: "https://hatscripts.github.io/circle-flags/flags/il.svg",
     api: "https://he.wikipedia.org/w/api.php?",
     article: "https://he.wikipedia.org/wiki/",
@@ -114,6 +130,7 @@ export const LANGUAGES = [
   {
     id: "hi",
     name: "हिन्दी",
+    englishName: "Hindi",
     flag: "https://hatscripts.github.io/circle-flags/flags/in.svg",
     api: "https://hi.wikipedia.org/w/api.php?",
     article: "https://hi.wikipedia.org/wiki/",
@@ -121,6 +138,7 @@ export const LANGUAGES = [
   {
     id: "hr",
     name: "Hrvatski",
+    englishName: "Croatian",
     flag: "https://hatscripts.github.io/circle-flags/flags/hr.svg",
     api: "https://hr.wikipedia.org/w/api.php?",
     article: "https://hr.wikipedia.org/wiki/",
@@ -128,13 +146,15 @@ export const LANGUAGES = [
   {
     id: "hu",
     name: "Magyar",
+    englishName: "Hungarian",
     flag: "https://hatscripts.github.io/circle-flags/flags/hu.svg",
     api: "https://hu.wikipedia.org/w/api.php?",
     article: "https://hu.wikipedia.org/wiki/",
   },
   {
     id: "id",
-    name: "Indonesian",
+    name: "Bahasa Indonesia",
+    englishName: "Indonesian",
     flag: "https://hatscripts.github.io/circle-flags/flags/id.svg",
     api: "https://id.wikipedia.org/w/api.php?",
     article: "https://id.wikipedia.org/wiki/",
@@ -142,6 +162,7 @@ export const LANGUAGES = [
   {
     id: "it",
     name: "Italiano",
+    englishName: "Italian",
     flag: "https://hatscripts.github.io/circle-flags/flags/it.svg",
     api: "https://it.wikipedia.org/w/api.php?",
     article: "https://it.wikipedia.org/wiki/",
@@ -149,6 +170,7 @@ export const LANGUAGES = [
   {
     id: "ja",
     name: "日本語",
+    englishName: "Japanese",
     flag: "https://hatscripts.github.io/circle-flags/flags/jp.svg",
     api: "https://ja.wikipedia.org/w/api.php?",
     article: "https://ja.wikipedia.org/wiki/",
@@ -156,6 +178,7 @@ export const LANGUAGES = [
   {
     id: "ko",
     name: "한국어",
+    englishName: "Korean",
     flag: "https://hatscripts.github.io/circle-flags/flags/kr.svg",
     api: "https://ko.wikipedia.org/w/api.php?",
     article: "https://ko.wikipedia.org/wiki/",
@@ -163,6 +186,7 @@ export const LANGUAGES = [
   {
     id: "ml",
     name: "മലയാളം",
+    englishName: "Malayalam",
     flag: "https://hatscripts.github.io/circle-flags/flags/in.svg",
     api: "https://ml.wikipedia.org/w/api.php?",
     article: "https://ml.wikipedia.org/wiki/",
@@ -170,6 +194,7 @@ export const LANGUAGES = [
   {
     id: "nl",
     name: "Nederlands",
+    englishName: "Dutch",
     flag: "https://hatscripts.github.io/circle-flags/flags/nl.svg",
     api: "https://nl.wikipedia.org/w/api.php?",
     article: "https://nl.wikipedia.org/wiki/",
@@ -177,6 +202,7 @@ export const LANGUAGES = [
   {
     id: "pl",
     name: "Polski",
+    englishName: "Polish",
     flag: "https://hatscripts.github.io/circle-flags/flags/pl.svg",
     api: "https://pl.wikipedia.org/w/api.php?",
     article: "https://pl.wikipedia.org/wiki/",
@@ -184,6 +210,7 @@ export const LANGUAGES = [
   {
     id: "pt",
     name: "Português",
+    englishName: "Portuguese",
     flag: "https://hatscripts.github.io/circle-flags/flags/br.svg",
     api: "https://pt.wikipedia.org/w/api.php?",
     article: "https://pt.wikipedia.org/wiki/",
@@ -191,6 +218,7 @@ export const LANGUAGES = [
   {
     id: "ro",
     name: "Română",
+    englishName: "Romanian",
     flag: "https://hatscripts.github.io/circle-flags/flags/ro.svg",
     api: "https://ro.wikipedia.org/w/api.php?",
     article: "https://ro.wikipedia.org/wiki/",
@@ -198,6 +226,7 @@ export const LANGUAGES = [
   {
     id: "ru",
     name: "Русский",
+    englishName: "Russian",
     flag: "https://hatscripts.github.io/circle-flags/flags/ru.svg",
     api: "https://ru.wikipedia.org/w/api.php?",
     article: "https://ru.wikipedia.org/wiki/",
@@ -205,6 +234,7 @@ export const LANGUAGES = [
   {
     id: "sk",
     name: "Slovenčina",
+    englishName: "Slovak",
     flag: "https://hatscripts.github.io/circle-flags/flags/sk.svg",
     api: "https://sk.wikipedia.org/w/api.php?",
     article: "https://sk.wikipedia.org/wiki/",
@@ -212,6 +242,7 @@ export const LANGUAGES = [
   {
     id: "sr",
     name: "Српски / Srpski",
+    englishName: "Serbian",
     flag: "https://hatscripts.github.io/circle-flags/flags/rs.svg",
     api: "https://sr.wikipedia.org/w/api.php?",
     article: "https://sr.wikipedia.org/wiki/",
@@ -219,6 +250,7 @@ export const LANGUAGES = [
   {
     id: "sv",
     name: "Svenska",
+    englishName: "Swedish",
     flag: "https://hatscripts.github.io/circle-flags/flags/se.svg",
     api: "https://sv.wikipedia.org/w/api.php?",
     article: "https://sv.wikipedia.org/wiki/",
@@ -226,6 +258,7 @@ export const LANGUAGES = [
   {
     id: "te",
     name: "తెలుగు",
+    englishName: "Telugu",
     flag: "https://hatscripts.github.io/circle-flags/flags/in.svg",
     api: "https://te.wikipedia.org/w/api.php?",
     article: "https://te.wikipedia.org/wiki/",
@@ -233,6 +266,7 @@ export const LANGUAGES = [
   {
     id: "th",
     name: "ไทย",
+    englishName: "Thai",
     flag: "https://hatscripts.github.io/circle-flags/flags/th.svg",
     api: "https://th.wikipedia.org/w/api.php?",
     article: "https://th.wikipedia.org/wiki/",
@@ -240,6 +274,7 @@ export const LANGUAGES = [
   {
     id: "tr",
     name: "Türkçe",
+    englishName: "Turkish",
     flag: "https://hatscripts.github.io/circle-flags/flags/tr.svg",
     api: "https://tr.wikipedia.org/w/api.php?",
     article: "https://tr.wikipedia.org/wiki/",
@@ -247,6 +282,7 @@ export const LANGUAGES = [
   {
     id: "uk",
     name: "Українська",
+    englishName: "Ukrainian",
     flag: "https://hatscripts.github.io/circle-flags/flags/ua.svg",
     api: "https://uk.wikipedia.org/w/api.php?",
     article: "https://uk.wikipedia.org/wiki/",
@@ -254,6 +290,7 @@ export const LANGUAGES = [
   {
     id: "ur",
     name: "اردو",
+    englishName: "Urdu",
     flag: "https://hatscripts.github.io/circle-flags/flags/pk.svg",
     api: "https://ur.wikipedia.org/w/api.php?",
     article: "https://ur.wikipedia.org/wiki/",
@@ -261,6 +298,7 @@ export const LANGUAGES = [
   {
     id: "vi",
     name: "Tiếng Việt",
+    englishName: "Vietnamese",
     flag: "https://hatscripts.github.io/circle-flags/flags/vn.svg",
     api: "https://vi.wikipedia.org/w/api.php?",
     article: "https://vi.wikipedia.org/wiki/",
@@ -268,6 +306,7 @@ export const LANGUAGES = [
   {
     id: "wuu-hans",
     name: "吴语（简体）",
+    englishName: "Wu Chinese (Simplified)",
     flag: "https://hatscripts.github.io/circle-flags/flags/cn.svg",
     api: "https://wuu.wikipedia.org/w/api.php?",
     article: "https://wuu.wikipedia.org/wiki/",
@@ -275,6 +314,7 @@ export const LANGUAGES = [
   {
     id: "wuu-hant",
     name: "吳語（繁體）",
+    englishName: "Wu Chinese (Traditional)",
     flag: "https://hatscripts.github.io/circle-flags/flags/cn.svg",
     api: "https://wuu.wikipedia.org/w/api.php?",
     article: "https://wuu.wikipedia.org/wiki/",
@@ -282,6 +322,7 @@ export const LANGUAGES = [
   {
     id: "yue-hant",
     name: "粵語（繁體）",
+    englishName: "Cantonese (Traditional)",
     flag: "https://hatscripts.github.io/circle-flags/flags/hk.svg",
     api: "https://zh-yue.wikipedia.org/w/api.php?",
     article: "https://zh-yue.wikipedia.org/wiki/",
@@ -289,6 +330,7 @@ export const LANGUAGES = [
   {
     id: "zh-cn",
     name: "中文（中国大陆）",
+    englishName: "Chinese (Mainland China)",
     flag: "https://hatscripts.github.io/circle-flags/flags/cn.svg",
     api: "https://zh.wikipedia.org/w/api.php?",
     article: "https://zh.wikipedia.org/wiki/",
@@ -296,6 +338,7 @@ export const LANGUAGES = [
   {
     id: "zh-hk",
     name: "中文（香港）",
+    englishName: "Chinese (Hong Kong)",
     flag: "https://hatscripts.github.io/circle-flags/flags/hk.svg",
     api: "https://zh.wikipedia.org/w/api.php?",
     article: "https://zh.wikipedia.org/wiki/",
@@ -303,6 +346,7 @@ export const LANGUAGES = [
   {
     id: "zh-mo",
     name: "中文（澳門）",
+    englishName: "Chinese (Macau)",
     flag: "https://hatscripts.github.io/circle-flags/flags/mo.svg",
     api: "https://zh.wikipedia.org/w/api.php?",
     article: "https://zh.wikipedia.org/wiki/",
@@ -310,6 +354,7 @@ export const LANGUAGES = [
   {
     id: "zh-my",
     name: "中文（马来西亚）",
+    englishName: "Chinese (Malaysia)",
     flag: "https://hatscripts.github.io/circle-flags/flags/my.svg",
     api: "https://zh.wikipedia.org/w/api.php?",
     article: "https://zh.wikipedia.org/wiki/",
@@ -317,6 +362,7 @@ export const LANGUAGES = [
   {
     id: "zh-sg",
     name: "中文（新加坡）",
+    englishName: "Chinese (Singapore)",
     flag: "https://hatscripts.github.io/circle-flags/flags/sg.svg",
     api: "https://zh.wikipedia.org/w/api.php?",
     article: "https://zh.wikipedia.org/wiki/",
@@ -324,6 +370,7 @@ export const LANGUAGES = [
   {
     id: "zh-tw",
     name: "中文（臺灣）",
+    englishName: "Chinese (Taiwan)",
     flag: "https://hatscripts.github.io/circle-flags/flags/tw.svg",
     api: "https://zh.wikipedia.org/w/api.php?",
     article: "https://zh.wikipedia.org/wiki/",
@@ -331,8 +378,21 @@ export const LANGUAGES = [
   {
     id: "ks",
     name: "कॉशुर / کٲشُر",
+    englishName: "Kashmiri",
     flag: "https://hatscripts.github.io/circle-flags/flags/in.svg",
     api: "https://ks.wikipedia.org/w/api.php?",
     article: "https://ks.wikipedia.org/wiki/",
   },
 ];
+
+export type Language = (typeof LANGUAGES)[number];
+
+// Written right to left, the whole interface is mirrored for these
+const RTL_WIKIS = new Set(["ar", "fa", "he", "ks", "ur"]);
+
+// Wikipedia subdomain for a language, e.g. "zh" for every zh-* variant
+export const getWikiCode = (language: Language): string =>
+  new URL(language.api).hostname.split(".")[0];
+
+export const getDirection = (language: Language): "rtl" | "ltr" =>
+  RTL_WIKIS.has(getWikiCode(language)) ? "rtl" : "ltr";
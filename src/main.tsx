@@ -3,9 +3,24 @@ import { createRoot } from 'react-dom/client'
 import './index.css'
 import './styles/Article.css';
 import App from './App.tsx'
+import { LocalizationProvider } from './components/LocalizationProvider'
+import { configureApiBackend } from './utils/apiBackends'
+
+configureApiBackend()
+
+// Only in production builds, a cached shell would fight the dev server
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`${import.meta.env.BASE_URL}sw.js`)
+      .catch((error) => console.error('Service worker registration failed:', error))
+  })
+}
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <LocalizationProvider>
+      <App />
+    </LocalizationProvider>
   </StrictMode>,
 )
@@ -0,0 +1,146 @@
+import type { Catalog } from "./index";
+
+export const ar: Catalog = {
+  about: "حول",
+  watchlist: "قائمة المشاهدة",
+  filters: "عوامل التصفية",
+  feed: "الخلاصة",
+  onThisDay: "في مثل هذا اليوم",
+  onThisDayHint: "أفلام صدرت في تاريخ اليوم",
+  quiz: "اختبار",
+  quizHint: "خمّن الفيلم من حبكته",
+  bestStreak: "أفضل سلسلة: {count}",
+  spoilerSafe: "بلا حرق",
+  spoilerSafeHint: "إخفاء النهايات حتى النقر عليها",
+  language: "اللغة",
+  searchLanguages: "ابحث عن لغة",
+  noLanguages: "لا توجد لغة مطابقة",
+
+  loadingMore: "جارٍ تحميل المزيد من المقالات...",
+  offline: "غير متصل، تُعرض البطاقات المحفوظة",
+  releasedOn: "صدر في {date}",
+  moreLike: "المزيد مثل {title}",
+  backToRandom: "العودة إلى أفلام عشوائية",
+
+  sourceFilms: "أفلام",
+  sourceTv: "مسلسلات تلفزيونية",
+  sourceNovels: "روايات",
+  sourceGames: "ألعاب فيديو",
+  sourcePlays: "مسرحيات",
+  loadFailedFilms: "تعذّر تحميل المزيد من الأفلام، مرّر للأسفل للمحاولة مجددًا",
+  loadFailedTv: "تعذّر تحميل المزيد من المسلسلات، مرّر للأسفل للمحاولة مجددًا",
+  loadFailedNovels: "تعذّر تحميل المزيد من الروايات، مرّر للأسفل للمحاولة مجددًا",
+  loadFailedGames: "تعذّر تحميل المزيد من ألعاب الفيديو، مرّر للأسفل للمحاولة مجددًا",
+  loadFailedPlays: "تعذّر تحميل المزيد من المسرحيات، مرّر للأسفل للمحاولة مجددًا",
+
+  releasedYearsAgo: {
+    zero: "صدر في مثل هذا اليوم",
+    one: "صدر قبل سنة في مثل هذا اليوم",
+    two: "صدر قبل سنتين في مثل هذا اليوم",
+    few: "صدر قبل {count} سنوات في مثل هذا اليوم",
+    many: "صدر قبل {count} سنة في مثل هذا اليوم",
+    other: "صدر قبل {count} سنة في مثل هذا اليوم",
+  },
+  saveToWatchlist: "حفظ في قائمة المشاهدة",
+  removeFromWatchlist: "إزالة من قائمة المشاهدة",
+  share: "مشاركة المقالة",
+  shareFailed: "تعذّرت مشاركة المقالة.",
+  linkCopied: "نُسخ الرابط إلى الحافظة!",
+  loadingTranslation: "جارٍ تحميل {language}...",
+  translationFailed: "تعذّر تحميل المقالة بلغة {language}.",
+  readPlot: "اقرأ الحبكة",
+  moreLikeThis: "المزيد مثل هذا",
+  readMore: "اقرأ المزيد",
+  directedBy: "إخراج {name}",
+  runtimeHours: "{hours} س {minutes} د",
+  runtimeMinutes: "{minutes} د",
+
+  closePlot: "إغلاق الحبكة",
+  plotFailed: "تعذّر تحميل الحبكة. حاول لاحقًا.",
+  noPlotSection: "لا يوجد قسم للحبكة في هذه المقالة، تُعرض مقدمتها بدلًا منه.",
+  revealEnding: "انقر لكشف النهاية",
+
+  whichFilm: "ما هذا الفيلم؟",
+  correct: "صحيح!",
+  notQuite: "ليس تمامًا، إنه هذا الفيلم",
+
+  readInAnotherLanguage: "اقرأ بلغة أخرى",
+  sideBySide: "جنبًا إلى جنب",
+  otherLanguagesFailed: "تعذّر تحميل اللغات الأخرى.",
+  noOtherLanguages: "لا توجد لغات أخرى متاحة.",
+
+  searchTitles: "ابحث عن عنوان",
+  searchSource: "ابحث في {source}",
+  openFailed: "تعذّر فتح هذا الفيلم.",
+
+  closeFilters: "إغلاق عوامل التصفية",
+  decades: "العقود",
+  fromDecade: "من عقد",
+  toDecade: "إلى عقد",
+  decadeTo: "إلى",
+  decade: "عقد {decade}",
+  any: "الكل",
+  format: "النوع الفني",
+  genres: "الأنواع",
+  country: "بلد المنشأ",
+  decadeOnly: "لا يمكن تصفية {source} إلا حسب العقد، وتنطبق عوامل التصفية الأخرى على الأفلام.",
+  reset: "إعادة تعيين",
+  apply: "تطبيق",
+
+  formatAll: "الكل",
+  formatAnimated: "رسوم متحركة",
+  formatLiveAction: "تمثيل حي",
+  genreAction: "حركة",
+  genreAdventure: "مغامرة",
+  genreComedy: "كوميديا",
+  genreCrime: "جريمة",
+  genreDocumentary: "وثائقي",
+  genreDrama: "دراما",
+  genreFantasy: "فانتازيا",
+  genreHorror: "رعب",
+  genreMusical: "موسيقي",
+  genreRomance: "رومانسي",
+  genreScifi: "خيال علمي",
+  genreThriller: "إثارة",
+  genreWar: "حرب",
+  genreWestern: "غربي",
+  countryUs: "الولايات المتحدة",
+  countryGb: "المملكة المتحدة",
+  countryFr: "فرنسا",
+  countryDe: "ألمانيا",
+  countryIt: "إيطاليا",
+  countryEs: "إسبانيا",
+  countryIn: "الهند",
+  countryJp: "اليابان",
+  countryKr: "كوريا الجنوبية",
+  countryCn: "الصين",
+  countryHk: "هونغ كونغ",
+  countryCa: "كندا",
+  countryMx: "المكسيك",
+  countryBr: "البرازيل",
+  countryRu: "روسيا",
+
+  sortWatchlist: "ترتيب قائمة المشاهدة",
+  recentlySaved: "المحفوظة مؤخرًا",
+  releaseYear: "سنة الإصدار",
+  closeWatchlist: "إغلاق قائمة المشاهدة",
+  watchlistEmpty: "لا شيء محفوظ بعد. انقر على الإشارة المرجعية في أي فيلم لحفظه هنا.",
+  savedOn: "حُفظ في {date}",
+  removeArticle: "إزالة {title}",
+
+  aboutTitle: "حول wiki_plot",
+  closeAbout: "إغلاق نافذة حول",
+  aboutIntro: "واجهة على طريقة TikTok لاستكشاف مقالات ويكيبيديا عشوائية عن الأفلام.",
+  seenSkipped: {
+    zero: "لا توجد أفلام شاهدتها بهذه اللغة لتخطيها.",
+    one: "يُتخطى فيلم واحد شاهدته بهذه اللغة.",
+    two: "يُتخطى فيلمان شاهدتهما بهذه اللغة.",
+    few: "تُتخطى {count} أفلام شاهدتها بهذه اللغة.",
+    many: "يُتخطى {count} فيلمًا شاهدته بهذه اللغة.",
+    other: "يُتخطى {count} فيلم شاهدته بهذه اللغة.",
+  },
+  historyCleared: "مُسح السجل، يمكن أن تظهر الأفلام التي شاهدتها مجددًا.",
+  resetHistory: "مسح السجل",
+  madeBy: "من إعداد",
+  originalCode: "الشيفرة الأصلية من WikiTok على",
+};
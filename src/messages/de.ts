@@ -0,0 +1,138 @@
+import type { Catalog } from "./index";
+
+export const de: Catalog = {
+  about: "Über",
+  watchlist: "Merkliste",
+  filters: "Filter",
+  feed: "Feed",
+  onThisDay: "An diesem Tag",
+  onThisDayHint: "Filme, die an einem heutigen Datum erschienen sind",
+  quiz: "Quiz",
+  quizHint: "Errate den Film anhand seiner Handlung",
+  bestStreak: "Beste Serie: {count}",
+  spoilerSafe: "Spoilerfrei",
+  spoilerSafeHint: "Enden erst nach Antippen zeigen",
+  language: "Sprache",
+  searchLanguages: "Sprachen suchen",
+  noLanguages: "Keine passende Sprache",
+
+  loadingMore: "Weitere Artikel werden geladen...",
+  offline: "Offline, gespeicherte Karten werden gezeigt",
+  releasedOn: "Erschienen am {date}",
+  moreLike: "Mehr wie {title}",
+  backToRandom: "Zurück zu zufälligen Filmen",
+
+  sourceFilms: "Filme",
+  sourceTv: "Fernsehserien",
+  sourceNovels: "Romane",
+  sourceGames: "Videospiele",
+  sourcePlays: "Theaterstücke",
+  loadFailedFilms: "Keine weiteren Filme geladen, scroll nach unten, um es erneut zu versuchen",
+  loadFailedTv: "Keine weiteren Fernsehserien geladen, scroll nach unten, um es erneut zu versuchen",
+  loadFailedNovels: "Keine weiteren Romane geladen, scroll nach unten, um es erneut zu versuchen",
+  loadFailedGames: "Keine weiteren Videospiele geladen, scroll nach unten, um es erneut zu versuchen",
+  loadFailedPlays: "Keine weiteren Theaterstücke geladen, scroll nach unten, um es erneut zu versuchen",
+
+  releasedYearsAgo: {
+    one: "Heute vor {count} Jahr erschienen",
+    other: "Heute vor {count} Jahren erschienen",
+  },
+  saveToWatchlist: "Auf die Merkliste",
+  removeFromWatchlist: "Von der Merkliste entfernen",
+  share: "Artikel teilen",
+  shareFailed: "Der Artikel konnte nicht geteilt werden.",
+  linkCopied: "Link in die Zwischenablage kopiert!",
+  loadingTranslation: "{language} wird geladen...",
+  translationFailed: "Der Artikel auf {language} konnte nicht geladen werden.",
+  readPlot: "Handlung lesen",
+  moreLikeThis: "Mehr davon",
+  readMore: "Weiterlesen",
+  directedBy: "Regie: {name}",
+  runtimeHours: "{hours} Std. {minutes} Min.",
+  runtimeMinutes: "{minutes} Min.",
+
+  closePlot: "Handlung schließen",
+  plotFailed: "Die Handlung konnte nicht geladen werden. Versuch es später noch einmal.",
+  noPlotSection: "Dieser Artikel hat keinen Handlungsabschnitt, stattdessen wird die Einleitung gezeigt.",
+  revealEnding: "Tippen, um das Ende zu zeigen",
+
+  whichFilm: "Welcher Film ist das?",
+  correct: "Richtig!",
+  notQuite: "Nicht ganz, es war dieser",
+
+  readInAnotherLanguage: "In einer anderen Sprache lesen",
+  sideBySide: "Nebeneinander",
+  otherLanguagesFailed: "Andere Sprachen konnten nicht geladen werden.",
+  noOtherLanguages: "Keine anderen Sprachen verfügbar.",
+
+  searchTitles: "Titel suchen",
+  searchSource: "{source} durchsuchen",
+  openFailed: "Dieser Film konnte nicht geöffnet werden.",
+
+  closeFilters: "Filter schließen",
+  decades: "Jahrzehnte",
+  fromDecade: "Ab Jahrzehnt",
+  toDecade: "Bis Jahrzehnt",
+  decadeTo: "bis",
+  decade: "{decade}er",
+  any: "Alle",
+  format: "Format",
+  genres: "Genres",
+  country: "Herkunftsland",
+  decadeOnly: "{source} lassen sich nur nach Jahrzehnt filtern, die anderen Filter gelten für Filme.",
+  reset: "Zurücksetzen",
+  apply: "Anwenden",
+
+  formatAll: "Alle",
+  formatAnimated: "Animiert",
+  formatLiveAction: "Realfilm",
+  genreAction: "Action",
+  genreAdventure: "Abenteuer",
+  genreComedy: "Komödie",
+  genreCrime: "Krimi",
+  genreDocumentary: "Dokumentarfilm",
+  genreDrama: "Drama",
+  genreFantasy: "Fantasy",
+  genreHorror: "Horror",
+  genreMusical: "Musical",
+  genreRomance: "Liebesfilm",
+  genreScifi: "Science-Fiction",
+  genreThriller: "Thriller",
+  genreWar: "Kriegsfilm",
+  genreWestern: "Western",
+  countryUs: "Vereinigte Staaten",
+  countryGb: "Vereinigtes Königreich",
+  countryFr: "Frankreich",
+  countryDe: "Deutschland",
+  countryIt: "Italien",
+  countryEs: "Spanien",
+  countryIn: "Indien",
+  countryJp: "Japan",
+  countryKr: "Südkorea",
+  countryCn: "China",
+  countryHk: "Hongkong",
+  countryCa: "Kanada",
+  countryMx: "Mexiko",
+  countryBr: "Brasilien",
+  countryRu: "Russland",
+
+  sortWatchlist: "Merkliste sortieren",
+  recentlySaved: "Zuletzt gemerkt",
+  releaseYear: "Erscheinungsjahr",
+  closeWatchlist: "Merkliste schließen",
+  watchlistEmpty: "Noch nichts gemerkt. Tippe bei einem Film auf das Lesezeichen, um ihn hier abzulegen.",
+  savedOn: "Gemerkt am {date}",
+  removeArticle: "{title} entfernen",
+
+  aboutTitle: "Über wiki_plot",
+  closeAbout: "Info schließen",
+  aboutIntro: "Eine Oberfläche im Stil von TikTok, um zufällige Wikipedia-Artikel über Filme zu entdecken.",
+  seenSkipped: {
+    one: "{count} Film, den du in dieser Sprache gesehen hast, wird übersprungen.",
+    other: "{count} Filme, die du in dieser Sprache gesehen hast, werden übersprungen.",
+  },
+  historyCleared: "Verlauf gelöscht, gesehene Filme können wieder erscheinen.",
+  resetHistory: "Verlauf löschen",
+  madeBy: "Erstellt von",
+  originalCode: "Ursprünglicher Code von WikiTok auf",
+};
@@ -0,0 +1,151 @@
+import type { Message } from "./index";
+
+// Every interface string, the other catalogs fall back to these
+export const en = {
+  // Header
+  about: "About",
+  watchlist: "Watchlist",
+  filters: "Filters",
+  feed: "Feed",
+  onThisDay: "On this day",
+  onThisDayHint: "Films released on today's date",
+  quiz: "Quiz",
+  quizHint: "Guess the film from its plot",
+  bestStreak: "Best streak: {count}",
+  spoilerSafe: "Spoiler-safe",
+  spoilerSafeHint: "Hide plot endings until tapped",
+  language: "Language",
+  searchLanguages: "Search languages",
+  noLanguages: "No matching languages",
+
+  // Feed
+  loadingMore: "Loading more articles...",
+  offline: "Offline, showing cached cards",
+  releasedOn: "Released on {date}",
+  moreLike: "More like {title}",
+  backToRandom: "Back to random films",
+
+  // Feed sources
+  sourceFilms: "Films",
+  sourceTv: "TV series",
+  sourceNovels: "Novels",
+  sourceGames: "Video games",
+  sourcePlays: "Stage plays",
+  loadFailedFilms: "Couldn't load more films, scroll down to try again",
+  loadFailedTv: "Couldn't load more TV series, scroll down to try again",
+  loadFailedNovels: "Couldn't load more novels, scroll down to try again",
+  loadFailedGames: "Couldn't load more video games, scroll down to try again",
+  loadFailedPlays: "Couldn't load more plays, scroll down to try again",
+
+  // Cards
+  releasedYearsAgo: {
+    one: "Released {count} year ago today",
+    other: "Released {count} years ago today",
+  },
+  saveToWatchlist: "Save to watchlist",
+  removeFromWatchlist: "Remove from watchlist",
+  share: "Share article",
+  shareFailed: "Failed to share the article.",
+  linkCopied: "Link copied to clipboard!",
+  loadingTranslation: "Loading {language}...",
+  translationFailed: "Couldn't load the {language} article.",
+  readPlot: "Read plot",
+  moreLikeThis: "More like this",
+  readMore: "Read more",
+  directedBy: "Dir. {name}",
+  runtimeHours: "{hours}h {minutes}m",
+  runtimeMinutes: "{minutes}m",
+
+  // Plot reader
+  closePlot: "Close plot",
+  plotFailed: "Couldn't load the plot. Try again later.",
+  noPlotSection: "This article has no plot section, showing its introduction instead.",
+  revealEnding: "Tap to reveal the ending",
+
+  // Quiz
+  whichFilm: "Which film is this?",
+  correct: "Correct!",
+  notQuite: "Not quite, it was this one",
+
+  // Translations
+  readInAnotherLanguage: "Read in another language",
+  sideBySide: "Side by side",
+  otherLanguagesFailed: "Couldn't load other languages.",
+  noOtherLanguages: "No other languages available.",
+
+  // Search
+  searchTitles: "Search titles",
+  searchSource: "Search {source}",
+  openFailed: "Couldn't open that film.",
+
+  // Filters
+  closeFilters: "Close filters",
+  decades: "Decades",
+  fromDecade: "From decade",
+  toDecade: "To decade",
+  decadeTo: "to",
+  decade: "{decade}s",
+  any: "Any",
+  format: "Format",
+  genres: "Genres",
+  country: "Country of origin",
+  decadeOnly: "{source} can only be filtered by decade, the other filters apply to films.",
+  reset: "Reset",
+  apply: "Apply",
+
+  // Filter options
+  formatAll: "All",
+  formatAnimated: "Animated",
+  formatLiveAction: "Live-action",
+  genreAction: "Action",
+  genreAdventure: "Adventure",
+  genreComedy: "Comedy",
+  genreCrime: "Crime",
+  genreDocumentary: "Documentary",
+  genreDrama: "Drama",
+  genreFantasy: "Fantasy",
+  genreHorror: "Horror",
+  genreMusical: "Musical",
+  genreRomance: "Romance",
+  genreScifi: "Science fiction",
+  genreThriller: "Thriller",
+  genreWar: "War",
+  genreWestern: "Western",
+  countryUs: "United States",
+  countryGb: "United Kingdom",
+  countryFr: "France",
+  countryDe: "Germany",
+  countryIt: "Italy",
+  countryEs: "Spain",
+  countryIn: "India",
+  countryJp: "Japan",
+  countryKr: "South Korea",
+  countryCn: "China",
+  countryHk: "Hong Kong",
+  countryCa: "Canada",
+  countryMx: "Mexico",
+  countryBr: "Brazil",
+  countryRu: "Russia",
+
+  // Watchlist
+  sortWatchlist: "Sort watchlist",
+  recentlySaved: "Recently saved",
+  releaseYear: "Release year",
+  closeWatchlist: "Close watchlist",
+  watchlistEmpty: "Nothing saved yet. Tap the bookmark on a film to keep it here.",
+  savedOn: "Saved {date}",
+  removeArticle: "Remove {title}",
+
+  // About
+  aboutTitle: "About wiki_plot",
+  closeAbout: "Close about dialog",
+  aboutIntro: "A TikTok-style interface for exploring random Wikipedia articles of movies.",
+  seenSkipped: {
+    one: "{count} film you've seen in this language is skipped.",
+    other: "{count} films you've seen in this language are skipped.",
+  },
+  historyCleared: "History cleared, seen films can show up again.",
+  resetHistory: "Reset history",
+  madeBy: "Made by",
+  originalCode: "Original code from WikiTok on",
+} satisfies Record<string, Message>;
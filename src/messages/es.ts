@@ -0,0 +1,138 @@
+import type { Catalog } from "./index";
+
+export const es: Catalog = {
+  about: "Acerca de",
+  watchlist: "Mi lista",
+  filters: "Filtros",
+  feed: "Feed",
+  onThisDay: "Un día como hoy",
+  onThisDayHint: "Películas estrenadas en la fecha de hoy",
+  quiz: "Quiz",
+  quizHint: "Adivina la película por su argumento",
+  bestStreak: "Mejor racha: {count}",
+  spoilerSafe: "Sin spoilers",
+  spoilerSafeHint: "Ocultar los finales hasta tocarlos",
+  language: "Idioma",
+  searchLanguages: "Buscar idiomas",
+  noLanguages: "Ningún idioma coincide",
+
+  loadingMore: "Cargando más artículos...",
+  offline: "Sin conexión, mostrando tarjetas guardadas",
+  releasedOn: "Estrenada el {date}",
+  moreLike: "Más como {title}",
+  backToRandom: "Volver a películas al azar",
+
+  sourceFilms: "Películas",
+  sourceTv: "Series de televisión",
+  sourceNovels: "Novelas",
+  sourceGames: "Videojuegos",
+  sourcePlays: "Obras de teatro",
+  loadFailedFilms: "No se pudieron cargar más películas, desplázate hacia abajo para reintentarlo",
+  loadFailedTv: "No se pudieron cargar más series, desplázate hacia abajo para reintentarlo",
+  loadFailedNovels: "No se pudieron cargar más novelas, desplázate hacia abajo para reintentarlo",
+  loadFailedGames: "No se pudieron cargar más videojuegos, desplázate hacia abajo para reintentarlo",
+  loadFailedPlays: "No se pudieron cargar más obras de teatro, desplázate hacia abajo para reintentarlo",
+
+  releasedYearsAgo: {
+    one: "Estrenada hoy hace {count} año",
+    other: "Estrenada hoy hace {count} años",
+  },
+  saveToWatchlist: "Guardar en mi lista",
+  removeFromWatchlist: "Quitar de mi lista",
+  share: "Compartir artículo",
+  shareFailed: "No se pudo compartir el artículo.",
+  linkCopied: "¡Enlace copiado al portapapeles!",
+  loadingTranslation: "Cargando {language}...",
+  translationFailed: "No se pudo cargar el artículo en {language}.",
+  readPlot: "Leer argumento",
+  moreLikeThis: "Más como esta",
+  readMore: "Leer más",
+  directedBy: "Dir. {name}",
+  runtimeHours: "{hours} h {minutes} min",
+  runtimeMinutes: "{minutes} min",
+
+  closePlot: "Cerrar argumento",
+  plotFailed: "No se pudo cargar el argumento. Inténtalo más tarde.",
+  noPlotSection: "Este artículo no tiene sección de argumento, se muestra su introducción.",
+  revealEnding: "Toca para ver el final",
+
+  whichFilm: "¿Qué película es?",
+  correct: "¡Correcto!",
+  notQuite: "Casi, era esta",
+
+  readInAnotherLanguage: "Leer en otro idioma",
+  sideBySide: "Lado a lado",
+  otherLanguagesFailed: "No se pudieron cargar otros idiomas.",
+  noOtherLanguages: "No hay otros idiomas disponibles.",
+
+  searchTitles: "Buscar títulos",
+  searchSource: "Buscar {source}",
+  openFailed: "No se pudo abrir esa película.",
+
+  closeFilters: "Cerrar filtros",
+  decades: "Décadas",
+  fromDecade: "Desde la década",
+  toDecade: "Hasta la década",
+  decadeTo: "a",
+  decade: "Años {decade}",
+  any: "Cualquiera",
+  format: "Formato",
+  genres: "Géneros",
+  country: "País de origen",
+  decadeOnly: "{source} solo se pueden filtrar por década, los demás filtros se aplican a películas.",
+  reset: "Restablecer",
+  apply: "Aplicar",
+
+  formatAll: "Todas",
+  formatAnimated: "Animación",
+  formatLiveAction: "Imagen real",
+  genreAction: "Acción",
+  genreAdventure: "Aventura",
+  genreComedy: "Comedia",
+  genreCrime: "Crimen",
+  genreDocumentary: "Documental",
+  genreDrama: "Drama",
+  genreFantasy: "Fantasía",
+  genreHorror: "Terror",
+  genreMusical: "Musical",
+  genreRomance: "Romance",
+  genreScifi: "Ciencia ficción",
+  genreThriller: "Suspense",
+  genreWar: "Bélica",
+  genreWestern: "Western",
+  countryUs: "Estados Unidos",
+  countryGb: "Reino Unido",
+  countryFr: "Francia",
+  countryDe: "Alemania",
+  countryIt: "Italia",
+  countryEs: "España",
+  countryIn: "India",
+  countryJp: "Japón",
+  countryKr: "Corea del Sur",
+  countryCn: "China",
+  countryHk: "Hong Kong",
+  countryCa: "Canadá",
+  countryMx: "México",
+  countryBr: "Brasil",
+  countryRu: "Rusia",
+
+  sortWatchlist: "Ordenar mi lista",
+  recentlySaved: "Guardadas recientemente",
+  releaseYear: "Año de estreno",
+  closeWatchlist: "Cerrar mi lista",
+  watchlistEmpty: "Aún no hay nada guardado. Toca el marcador de una película para guardarla aquí.",
+  savedOn: "Guardada el {date}",
+  removeArticle: "Quitar {title}",
+
+  aboutTitle: "Acerca de wiki_plot",
+  closeAbout: "Cerrar acerca de",
+  aboutIntro: "Una interfaz al estilo de TikTok para explorar artículos de Wikipedia sobre películas al azar.",
+  seenSkipped: {
+    one: "Se omite {count} película que ya viste en este idioma.",
+    other: "Se omiten {count} películas que ya viste en este idioma.",
+  },
+  historyCleared: "Historial borrado, las películas vistas pueden volver a aparecer.",
+  resetHistory: "Borrar historial",
+  madeBy: "Hecho por",
+  originalCode: "Código original de WikiTok en",
+};
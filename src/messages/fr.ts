@@ -0,0 +1,138 @@
+import type { Catalog } from "./index";
+
+export const fr: Catalog = {
+  about: "À propos",
+  watchlist: "À voir",
+  filters: "Filtres",
+  feed: "Fil",
+  onThisDay: "Ce jour-là",
+  onThisDayHint: "Films sortis à la date d'aujourd'hui",
+  quiz: "Quiz",
+  quizHint: "Devinez le film d'après son intrigue",
+  bestStreak: "Meilleure série : {count}",
+  spoilerSafe: "Sans spoiler",
+  spoilerSafeHint: "Masquer les fins jusqu'à un appui",
+  language: "Langue",
+  searchLanguages: "Rechercher une langue",
+  noLanguages: "Aucune langue ne correspond",
+
+  loadingMore: "Chargement d'autres articles...",
+  offline: "Hors ligne, cartes en cache affichées",
+  releasedOn: "Sorti le {date}",
+  moreLike: "Dans le style de {title}",
+  backToRandom: "Revenir aux films au hasard",
+
+  sourceFilms: "Films",
+  sourceTv: "Séries télévisées",
+  sourceNovels: "Romans",
+  sourceGames: "Jeux vidéo",
+  sourcePlays: "Pièces de théâtre",
+  loadFailedFilms: "Impossible de charger d'autres films, faites défiler pour réessayer",
+  loadFailedTv: "Impossible de charger d'autres séries, faites défiler pour réessayer",
+  loadFailedNovels: "Impossible de charger d'autres romans, faites défiler pour réessayer",
+  loadFailedGames: "Impossible de charger d'autres jeux vidéo, faites défiler pour réessayer",
+  loadFailedPlays: "Impossible de charger d'autres pièces, faites défiler pour réessayer",
+
+  releasedYearsAgo: {
+    one: "Sorti il y a {count} an jour pour jour",
+    other: "Sorti il y a {count} ans jour pour jour",
+  },
+  saveToWatchlist: "Ajouter à voir",
+  removeFromWatchlist: "Retirer de la liste",
+  share: "Partager l'article",
+  shareFailed: "Impossible de partager l'article.",
+  linkCopied: "Lien copié dans le presse-papiers !",
+  loadingTranslation: "Chargement en {language}...",
+  translationFailed: "Impossible de charger l'article en {language}.",
+  readPlot: "Lire l'intrigue",
+  moreLikeThis: "Dans le même style",
+  readMore: "Lire la suite",
+  directedBy: "Réal. {name}",
+  runtimeHours: "{hours} h {minutes} min",
+  runtimeMinutes: "{minutes} min",
+
+  closePlot: "Fermer l'intrigue",
+  plotFailed: "Impossible de charger l'intrigue. Réessayez plus tard.",
+  noPlotSection: "Cet article n'a pas de section intrigue, son introduction est affichée à la place.",
+  revealEnding: "Appuyez pour révéler la fin",
+
+  whichFilm: "Quel est ce film ?",
+  correct: "Bonne réponse !",
+  notQuite: "Presque, c'était celui-ci",
+
+  readInAnotherLanguage: "Lire dans une autre langue",
+  sideBySide: "Côte à côte",
+  otherLanguagesFailed: "Impossible de charger les autres langues.",
+  noOtherLanguages: "Aucune autre langue disponible.",
+
+  searchTitles: "Rechercher un titre",
+  searchSource: "Rechercher : {source}",
+  openFailed: "Impossible d'ouvrir ce film.",
+
+  closeFilters: "Fermer les filtres",
+  decades: "Décennies",
+  fromDecade: "À partir de la décennie",
+  toDecade: "Jusqu'à la décennie",
+  decadeTo: "à",
+  decade: "Années {decade}",
+  any: "Toutes",
+  format: "Format",
+  genres: "Genres",
+  country: "Pays d'origine",
+  decadeOnly: "{source} : seul le filtre par décennie s'applique, les autres concernent les films.",
+  reset: "Réinitialiser",
+  apply: "Appliquer",
+
+  formatAll: "Tous",
+  formatAnimated: "Animation",
+  formatLiveAction: "Prises de vues réelles",
+  genreAction: "Action",
+  genreAdventure: "Aventure",
+  genreComedy: "Comédie",
+  genreCrime: "Policier",
+  genreDocumentary: "Documentaire",
+  genreDrama: "Drame",
+  genreFantasy: "Fantasy",
+  genreHorror: "Horreur",
+  genreMusical: "Comédie musicale",
+  genreRomance: "Romance",
+  genreScifi: "Science-fiction",
+  genreThriller: "Thriller",
+  genreWar: "Guerre",
+  genreWestern: "Western",
+  countryUs: "États-Unis",
+  countryGb: "Royaume-Uni",
+  countryFr: "France",
+  countryDe: "Allemagne",
+  countryIt: "Italie",
+  countryEs: "Espagne",
+  countryIn: "Inde",
+  countryJp: "Japon",
+  countryKr: "Corée du Sud",
+  countryCn: "Chine",
+  countryHk: "Hong Kong",
+  countryCa: "Canada",
+  countryMx: "Mexique",
+  countryBr: "Brésil",
+  countryRu: "Russie",
+
+  sortWatchlist: "Trier la liste",
+  recentlySaved: "Ajoutés récemment",
+  releaseYear: "Année de sortie",
+  closeWatchlist: "Fermer la liste",
+  watchlistEmpty: "Rien pour l'instant. Appuyez sur le signet d'un film pour le garder ici.",
+  savedOn: "Ajouté le {date}",
+  removeArticle: "Retirer {title}",
+
+  aboutTitle: "À propos de wiki_plot",
+  closeAbout: "Fermer « À propos »",
+  aboutIntro: "Une interface façon TikTok pour explorer des articles Wikipédia de films au hasard.",
+  seenSkipped: {
+    one: "{count} film déjà vu dans cette langue est ignoré.",
+    other: "{count} films déjà vus dans cette langue sont ignorés.",
+  },
+  historyCleared: "Historique effacé, les films vus peuvent réapparaître.",
+  resetHistory: "Effacer l'historique",
+  madeBy: "Créé par",
+  originalCode: "Code d'origine de WikiTok sur",
+};
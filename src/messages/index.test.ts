@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { translate } from "./index";
+import { LANGUAGES, getDirection } from "../languages";
+
+const language = (id: string) => LANGUAGES.find((lang) => lang.id === id)!;
+
+describe("translate", () => {
+  it("uses the language's catalog", () => {
+    expect(translate("de", "about")).toBe("Über");
+  });
+
+  it("falls back to English for languages without a catalog", () => {
+    expect(translate("fi", "about")).toBe("About");
+  });
+
+  it("shares catalogs between Chinese variants of the same script", () => {
+    expect(translate("zh-sg", "watchlist")).toBe(translate("zh-cn", "watchlist"));
+    expect(translate("zh-hk", "watchlist")).toBe(translate("zh-tw", "watchlist"));
+    expect(translate("zh-hk", "watchlist")).not.toBe(translate("zh-cn", "watchlist"));
+  });
+
+  it("fills in placeholders and picks the plural form", () => {
+    expect(translate("en", "moreLike", { title: "Heat" })).toBe("More like Heat");
+    expect(translate("en", "releasedYearsAgo", { count: 1 })).toBe("Released 1 year ago today");
+    expect(translate("en", "releasedYearsAgo", { count: 25 })).toBe("Released 25 years ago today");
+    expect(translate("ar", "releasedYearsAgo", { count: 2 })).toBe("صدر قبل سنتين في مثل هذا اليوم");
+  });
+
+  it("names feed sources and filter options in the language", () => {
+    expect(translate("de", "searchSource", { source: translate("de", "sourceTv") })).toBe(
+      "Fernsehserien durchsuchen"
+    );
+    expect(translate("fr", "genreHorror")).toBe("Horreur");
+    expect(translate("fi", "countryKr")).toBe("South Korea");
+  });
+
+  it("formats numbers for the language", () => {
+    expect(translate("ar", "bestStreak", { count: 12 })).toBe(
+      `أفضل سلسلة: ${new Intl.NumberFormat("ar").format(12)}`
+    );
+  });
+});
+
+describe("getDirection", () => {
+  it("mirrors right-to-left languages only", () => {
+    expect(["ar", "fa", "he", "ks", "ur"].map((id) => getDirection(language(id)))).toEqual(
+      Array(5).fill("rtl")
+    );
+    expect(getDirection(language("en"))).toBe("ltr");
+    expect(getDirection(language("zh-tw"))).toBe("ltr");
+  });
+});
@@ -0,0 +1,58 @@
+import { en } from "./en";
+import { ar } from "./ar";
+import { de } from "./de";
+import { es } from "./es";
+import { fr } from "./fr";
+import { zhHans, zhHant } from "./zh";
+
+// Plural messages have one form per CLDR plural category, "other" is required
+export type Message = string | ({ other: string } & Partial<Record<Intl.LDMLPluralRule, string>>);
+
+export type MessageKey = keyof typeof en;
+export type Catalog = Partial<Record<MessageKey, Message>>;
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * Interface translations by LANGUAGES id. Languages without a catalog, and
+ * keys missing from one, show the English text. Chinese variants and the
+ * other Chinese wikis share the catalog of their script.
+ */
+const CATALOGS: Record<string, Catalog> = {
+  ar,
+  de,
+  es,
+  fr,
+  "zh-cn": zhHans,
+  "zh-sg": zhHans,
+  "zh-my": zhHans,
+  "gan-hans": zhHans,
+  "wuu-hans": zhHans,
+  "zh-tw": zhHant,
+  "zh-hk": zhHant,
+  "zh-mo": zhHant,
+  "gan-hant": zhHant,
+  "wuu-hant": zhHant,
+  "yue-hant": zhHant,
+};
+
+/**
+ * Interface text for `key` in a language, with `{name}` placeholders filled
+ * from `params`. Numbers are formatted for the language, and a `count`
+ * param picks the plural form.
+ */
+export const translate = (languageId: string, key: MessageKey, params: MessageParams = {}) => {
+  const message: Message = CATALOGS[languageId]?.[key] ?? en[key];
+  const text =
+    typeof message === "string"
+      ? message
+      : message[new Intl.PluralRules(languageId).select(Number(params.count))] ?? message.other;
+
+  const numberFormat = new Intl.NumberFormat(languageId, { useGrouping: false });
+  return text.replace(/\{(\w+)\}/g, (placeholder: string, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === "number" ? numberFormat.format(value) : value;
+  });
+};
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
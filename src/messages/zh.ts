@@ -0,0 +1,264 @@
+import type { Catalog } from "./index";
+
+// Chinese has no plural forms, "other" is the only one used
+export const zhHans: Catalog = {
+  about: "关于",
+  watchlist: "待看清单",
+  filters: "筛选",
+  feed: "内容",
+  onThisDay: "历史上的今天",
+  onThisDayHint: "在今天这个日期上映的电影",
+  quiz: "竞猜",
+  quizHint: "根据剧情猜电影",
+  bestStreak: "最佳连胜：{count}",
+  spoilerSafe: "防剧透",
+  spoilerSafeHint: "点击前隐藏剧情结局",
+  language: "语言",
+  searchLanguages: "搜索语言",
+  noLanguages: "没有匹配的语言",
+
+  loadingMore: "正在加载更多条目……",
+  offline: "离线中，显示已缓存的卡片",
+  releasedOn: "{date}上映",
+  moreLike: "更多类似《{title}》的电影",
+  backToRandom: "返回随机电影",
+
+  sourceFilms: "电影",
+  sourceTv: "电视剧",
+  sourceNovels: "小说",
+  sourceGames: "电子游戏",
+  sourcePlays: "舞台剧",
+  loadFailedFilms: "无法加载更多电影，向下滚动以重试",
+  loadFailedTv: "无法加载更多电视剧，向下滚动以重试",
+  loadFailedNovels: "无法加载更多小说，向下滚动以重试",
+  loadFailedGames: "无法加载更多电子游戏，向下滚动以重试",
+  loadFailedPlays: "无法加载更多舞台剧，向下滚动以重试",
+
+  releasedYearsAgo: { other: "{count}年前的今天上映" },
+  saveToWatchlist: "加入待看清单",
+  removeFromWatchlist: "从待看清单移除",
+  share: "分享条目",
+  shareFailed: "无法分享该条目。",
+  linkCopied: "链接已复制到剪贴板！",
+  loadingTranslation: "正在加载{language}……",
+  translationFailed: "无法加载{language}条目。",
+  readPlot: "阅读剧情",
+  moreLikeThis: "更多类似",
+  readMore: "阅读全文",
+  directedBy: "导演：{name}",
+  runtimeHours: "{hours}小时{minutes}分钟",
+  runtimeMinutes: "{minutes}分钟",
+
+  closePlot: "关闭剧情",
+  plotFailed: "无法加载剧情，请稍后再试。",
+  noPlotSection: "该条目没有剧情章节，改为显示其简介。",
+  revealEnding: "点击显示结局",
+
+  whichFilm: "这是哪部电影？",
+  correct: "答对了！",
+  notQuite: "差一点，是这部",
+
+  readInAnotherLanguage: "用其他语言阅读",
+  sideBySide: "并排显示",
+  otherLanguagesFailed: "无法加载其他语言。",
+  noOtherLanguages: "没有其他语言版本。",
+
+  searchTitles: "搜索标题",
+  searchSource: "搜索{source}",
+  openFailed: "无法打开该电影。",
+
+  closeFilters: "关闭筛选",
+  decades: "年代",
+  fromDecade: "起始年代",
+  toDecade: "结束年代",
+  decadeTo: "至",
+  decade: "{decade}年代",
+  any: "不限",
+  format: "形式",
+  genres: "类型",
+  country: "出品国家/地区",
+  decadeOnly: "{source}只能按年代筛选，其他筛选条件仅适用于电影。",
+  reset: "重置",
+  apply: "应用",
+
+  formatAll: "全部",
+  formatAnimated: "动画",
+  formatLiveAction: "真人",
+  genreAction: "动作",
+  genreAdventure: "冒险",
+  genreComedy: "喜剧",
+  genreCrime: "犯罪",
+  genreDocumentary: "纪录片",
+  genreDrama: "剧情",
+  genreFantasy: "奇幻",
+  genreHorror: "恐怖",
+  genreMusical: "歌舞",
+  genreRomance: "爱情",
+  genreScifi: "科幻",
+  genreThriller: "惊悚",
+  genreWar: "战争",
+  genreWestern: "西部",
+  countryUs: "美国",
+  countryGb: "英国",
+  countryFr: "法国",
+  countryDe: "德国",
+  countryIt: "意大利",
+  countryEs: "西班牙",
+  countryIn: "印度",
+  countryJp: "日本",
+  countryKr: "韩国",
+  countryCn: "中国",
+  countryHk: "香港",
+  countryCa: "加拿大",
+  countryMx: "墨西哥",
+  countryBr: "巴西",
+  countryRu: "俄罗斯",
+
+  sortWatchlist: "排序待看清单",
+  recentlySaved: "最近加入",
+  releaseYear: "上映年份",
+  closeWatchlist: "关闭待看清单",
+  watchlistEmpty: "还没有保存任何电影。点击电影上的书签即可保存到这里。",
+  savedOn: "{date}加入",
+  removeArticle: "移除《{title}》",
+
+  aboutTitle: "关于 wiki_plot",
+  closeAbout: "关闭关于对话框",
+  aboutIntro: "一个 TikTok 风格的界面，用来浏览随机的维基百科电影条目。",
+  seenSkipped: { other: "将跳过你在该语言中看过的{count}部电影。" },
+  historyCleared: "历史已清除，看过的电影可能会再次出现。",
+  resetHistory: "清除历史",
+  madeBy: "作者：",
+  originalCode: "原始代码来自 WikiTok，托管于",
+};
+
+export const zhHant: Catalog = {
+  about: "關於",
+  watchlist: "待看清單",
+  filters: "篩選",
+  feed: "內容",
+  onThisDay: "歷史上的今天",
+  onThisDayHint: "在今天這個日期上映的電影",
+  quiz: "競猜",
+  quizHint: "根據劇情猜電影",
+  bestStreak: "最佳連勝：{count}",
+  spoilerSafe: "防劇透",
+  spoilerSafeHint: "點擊前隱藏劇情結局",
+  language: "語言",
+  searchLanguages: "搜尋語言",
+  noLanguages: "沒有相符的語言",
+
+  loadingMore: "正在載入更多條目……",
+  offline: "離線中，顯示已快取的卡片",
+  releasedOn: "{date}上映",
+  moreLike: "更多類似《{title}》的電影",
+  backToRandom: "返回隨機電影",
+
+  sourceFilms: "電影",
+  sourceTv: "電視劇",
+  sourceNovels: "小說",
+  sourceGames: "電子遊戲",
+  sourcePlays: "舞台劇",
+  loadFailedFilms: "無法載入更多電影，向下捲動以重試",
+  loadFailedTv: "無法載入更多電視劇，向下捲動以重試",
+  loadFailedNovels: "無法載入更多小說，向下捲動以重試",
+  loadFailedGames: "無法載入更多電子遊戲，向下捲動以重試",
+  loadFailedPlays: "無法載入更多舞台劇，向下捲動以重試",
+
+  releasedYearsAgo: { other: "{count}年前的今天上映" },
+  saveToWatchlist: "加入待看清單",
+  removeFromWatchlist: "從待看清單移除",
+  share: "分享條目",
+  shareFailed: "無法分享該條目。",
+  linkCopied: "連結已複製到剪貼簿！",
+  loadingTranslation: "正在載入{language}……",
+  translationFailed: "無法載入{language}條目。",
+  readPlot: "閱讀劇情",
+  moreLikeThis: "更多類似",
+  readMore: "閱讀全文",
+  directedBy: "導演：{name}",
+  runtimeHours: "{hours}小時{minutes}分鐘",
+  runtimeMinutes: "{minutes}分鐘",
+
+  closePlot: "關閉劇情",
+  plotFailed: "無法載入劇情，請稍後再試。",
+  noPlotSection: "該條目沒有劇情章節，改為顯示其簡介。",
+  revealEnding: "點擊顯示結局",
+
+  whichFilm: "這是哪部電影？",
+  correct: "答對了！",
+  notQuite: "差一點，是這部",
+
+  readInAnotherLanguage: "用其他語言閱讀",
+  sideBySide: "並排顯示",
+  otherLanguagesFailed: "無法載入其他語言。",
+  noOtherLanguages: "沒有其他語言版本。",
+
+  searchTitles: "搜尋標題",
+  searchSource: "搜尋{source}",
+  openFailed: "無法開啟該電影。",
+
+  closeFilters: "關閉篩選",
+  decades: "年代",
+  fromDecade: "起始年代",
+  toDecade: "結束年代",
+  decadeTo: "至",
+  decade: "{decade}年代",
+  any: "不限",
+  format: "形式",
+  genres: "類型",
+  country: "出品國家/地區",
+  decadeOnly: "{source}只能按年代篩選，其他篩選條件僅適用於電影。",
+  reset: "重設",
+  apply: "套用",
+
+  formatAll: "全部",
+  formatAnimated: "動畫",
+  formatLiveAction: "真人",
+  genreAction: "動作",
+  genreAdventure: "冒險",
+  genreComedy: "喜劇",
+  genreCrime: "犯罪",
+  genreDocumentary: "紀錄片",
+  genreDrama: "劇情",
+  genreFantasy: "奇幻",
+  genreHorror: "恐怖",
+  genreMusical: "歌舞",
+  genreRomance: "愛情",
+  genreScifi: "科幻",
+  genreThriller: "驚悚",
+  genreWar: "戰爭",
+  genreWestern: "西部",
+  countryUs: "美國",
+  countryGb: "英國",
+  countryFr: "法國",
+  countryDe: "德國",
+  countryIt: "義大利",
+  countryEs: "西班牙",
+  countryIn: "印度",
+  countryJp: "日本",
+  countryKr: "南韓",
+  countryCn: "中國",
+  countryHk: "香港",
+  countryCa: "加拿大",
+  countryMx: "墨西哥",
+  countryBr: "巴西",
+  countryRu: "俄羅斯",
+
+  sortWatchlist: "排序待看清單",
+  recentlySaved: "最近加入",
+  releaseYear: "上映年份",
+  closeWatchlist: "關閉待看清單",
+  watchlistEmpty: "還沒有儲存任何電影。點擊電影上的書籤即可儲存到這裡。",
+  savedOn: "{date}加入",
+  removeArticle: "移除《{title}》",
+
+  aboutTitle: "關於 wiki_plot",
+  closeAbout: "關閉關於對話框",
+  aboutIntro: "一個 TikTok 風格的介面，用來瀏覽隨機的維基百科電影條目。",
+  seenSkipped: { other: "將略過你在該語言中看過的{count}部電影。" },
+  historyCleared: "歷史已清除，看過的電影可能會再次出現。",
+  resetHistory: "清除歷史",
+  madeBy: "作者：",
+  originalCode: "原始程式碼來自 WikiTok，託管於",
+};
@@ -9,4 +9,5 @@ export interface ArticleProps {
 export interface ArticleListProps {
   articles: ArticleProps[];
   onArticleSelect: (article: ArticleProps) => void;
-}
\ No newline at end of file
+  onArticleRemove?: (article: ArticleProps) => void;
+}
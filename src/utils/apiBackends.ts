@@ -0,0 +1,82 @@
+import { setApiBackend, type ApiBackend } from "./wikiApi";
+import { findFixture, narrowResponse } from "./fixtureMatching";
+
+/**
+ * A canned answer. A request gets the first fixture of its host whose
+ * `params` it all has; `*` in a value matches any text, so
+ * `"cmtitle": "Category:* films"` answers every year.
+ */
+export interface ApiFixture {
+  params: Record<string, string>;
+  response: unknown;
+  // Replays throttling and server errors, 200 when left out
+  status?: number;
+  headers?: Record<string, string>;
+  // Answers this many requests, later ones move on to the next match
+  times?: number;
+}
+
+// Fixtures per API host, e.g. "en.wikipedia.org"
+export type FixtureSet = Record<string, ApiFixture[]>;
+
+const DEFAULT_MOCK_API_URL = "http://localhost:8787";
+
+/**
+ * Answers requests from fixtures instead of the network. Requests
+ * nothing matches get a `nofixture` API error, which callers treat like any
+ * other failed request.
+ */
+export const fixtureBackend = (fixtures: FixtureSet): ApiBackend => {
+  const uses = new Map<ApiFixture, number>();
+
+  return async (url, init) => {
+    init.signal?.throwIfAborted();
+
+    const { host, searchParams } = new URL(url);
+    const fixture = findFixture(fixtures, uses, host, searchParams);
+
+    if (!fixture) {
+      return Response.json({ error: { code: "nofixture", info: `No fixture for ${url}` } });
+    }
+
+    uses.set(fixture, (uses.get(fixture) || 0) + 1);
+    return Response.json(narrowResponse(fixture.response, searchParams), {
+      status: fixture.status,
+      headers: fixture.headers,
+    });
+  };
+};
+
+// The fixtures in src/fixtures, one file per host, loaded on first use
+export const loadFixtures = async (): Promise<FixtureSet> => {
+  const files = import.meta.glob<ApiFixture[]>("../fixtures/*.json", { import: "default" });
+  const entries = await Promise.all(
+    Object.entries(files).map(async ([path, load]) => [
+      path.replace(/^.*\/|\.json$/g, ""),
+      await load(),
+    ])
+  );
+  return Object.fromEntries(entries);
+};
+
+// Sends every request to scripts/mock-api.js, e.g. http://localhost:8787/en.wikipedia.org/w/api.php?...
+export const mockServerBackend = (baseUrl: string): ApiBackend => (url, init) => {
+  const { host, pathname, search } = new URL(url);
+  return fetch(`${baseUrl.replace(/\/$/, "")}/${host}${pathname}${search}`, init);
+};
+
+/**
+ * Picks the backend named by VITE_API_BACKEND: "fixtures" answers from
+ * src/fixtures without any network, "mock" talks to the local mock server
+ * at VITE_MOCK_API_URL. Anything else leaves the live APIs in place.
+ */
+export const configureApiBackend = () => {
+  // Read as written so Vite inlines the value and Rollup drops the fixtures
+  // from builds that don't use them
+  if (import.meta.env.VITE_API_BACKEND === "fixtures") {
+    const backend = loadFixtures().then(fixtureBackend);
+    setApiBackend(async (url, init) => (await backend)(url, init));
+  } else if (import.meta.env.VITE_API_BACKEND === "mock") {
+    setApiBackend(mockServerBackend(import.meta.env.VITE_MOCK_API_URL || DEFAULT_MOCK_API_URL));
+  }
+};
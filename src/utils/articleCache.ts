@@ -0,0 +1,52 @@
+import type { Language } from "../languages";
+import type { WikiArticle } from "../components/WikiCard";
+import { STORES, bulkUpdate, getAll } from "./db";
+
+// Recently fetched cards kept for offline browsing, across all languages
+const MAX_CACHED_ARTICLES = 300;
+
+interface CachedArticle {
+  // `${languageId}:${pageid}`
+  key: string;
+  languageId: string;
+  article: WikiArticle;
+  fetchedAt: number;
+}
+
+export const cacheArticles = async (language: Language, articles: WikiArticle[]) => {
+  if (articles.length === 0) return;
+
+  try {
+    const now = Date.now();
+    const fresh: CachedArticle[] = articles.map((article) => ({
+      key: `${language.id}:${article.pageid}`,
+      languageId: language.id,
+      article,
+      fetchedAt: now,
+    }));
+
+    const freshKeys = new Set(fresh.map((entry) => entry.key));
+    const existing = (await getAll<CachedArticle>(STORES.articles))
+      .filter((entry) => !freshKeys.has(entry.key))
+      .sort((a, b) => b.fetchedAt - a.fetchedAt);
+    const expired = existing
+      .slice(Math.max(0, MAX_CACHED_ARTICLES - fresh.length))
+      .map((entry) => entry.key);
+
+    await bulkUpdate(STORES.articles, fresh, expired);
+  } catch (error) {
+    console.warn("Could not cache articles for offline use:", error);
+  }
+};
+
+// Most recently fetched first, skipping anything already in the feed
+export const getCachedArticles = async (
+  language: Language,
+  excludeIds: Set<string>
+): Promise<WikiArticle[]> => {
+  const entries = await getAll<CachedArticle>(STORES.articles);
+  return entries
+    .filter((entry) => entry.languageId === language.id && !excludeIds.has(entry.article.pageid))
+    .sort((a, b) => b.fetchedAt - a.fetchedAt)
+    .map((entry) => entry.article);
+};
@@ -0,0 +1,105 @@
+import { getWikiCode, type Language } from "../languages";
+import { STORES, getOne, put, removeByIndex } from "./db";
+import { apiGet, type RequestOptions, type WikiQueryResponse } from "./wikiApi";
+
+export interface CategoryMember {
+  pageid: number;
+  title: string;
+}
+
+interface CachedCategory {
+  // `${wiki}:${category}`, variants of a wiki share their members
+  key: string;
+  members: CategoryMember[];
+  fetchedAt: number;
+}
+
+type WikiCategoryResponse = WikiQueryResponse<never, { categorymembers?: CategoryMember[] }>;
+
+// Year categories barely change, a week old list is still good for sampling
+const TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// 500 members per page, enough for the largest year categories
+const MAX_PAGES = 20;
+
+const memoryCache = new Map<string, CachedCategory>();
+
+const storeCategory = async (entry: CachedCategory) => {
+  try {
+    await removeByIndex(
+      STORES.categoryMembers,
+      "fetchedAt",
+      IDBKeyRange.upperBound(entry.fetchedAt - TTL_MS)
+    );
+    await put(STORES.categoryMembers, entry);
+  } catch (error) {
+    console.warn(`Could not cache ${entry.key}:`, error);
+  }
+};
+
+const isFresh = (entry: CachedCategory | undefined): entry is CachedCategory =>
+  !!entry && Date.now() - entry.fetchedAt < TTL_MS;
+
+// Follows cmcontinue until the whole category has been listed
+const fetchAllMembers = async (
+  language: Language,
+  category: string,
+  options: RequestOptions
+): Promise<CategoryMember[]> => {
+  const members: CategoryMember[] = [];
+  let next: Record<string, string> | null = {};
+
+  for (let page = 0; next && page < MAX_PAGES; page++) {
+    const data: WikiCategoryResponse = await apiGet(language.api, {
+      action: "query",
+      list: "categorymembers",
+      cmtitle: category,
+      cmnamespace: "0",
+      cmprop: "ids|title",
+      cmlimit: "max",
+      ...next,
+    }, options);
+
+    members.push(...(data.query?.categorymembers || []));
+    next = data.continue
+      ? Object.fromEntries(Object.entries(data.continue).map(([key, value]) => [key, String(value)]))
+      : null;
+  }
+
+  return members;
+};
+
+/**
+ * Every article in a local category, from memory, IndexedDB or the API in
+ * that order. Lists are kept for TTL_MS; when storage is unavailable they
+ * still last for the session.
+ */
+export const getCategoryMembers = async (
+  language: Language,
+  category: string,
+  options: RequestOptions = {}
+): Promise<CategoryMember[]> => {
+  const key = `${getWikiCode(language)}:${category}`;
+
+  const inMemory = memoryCache.get(key);
+  if (isFresh(inMemory)) return inMemory.members;
+
+  try {
+    const stored = await getOne<CachedCategory>(STORES.categoryMembers, key);
+    if (isFresh(stored)) {
+      memoryCache.set(key, stored);
+      return stored.members;
+    }
+  } catch (error) {
+    console.warn("Category cache unavailable:", error);
+  }
+
+  const entry: CachedCategory = {
+    key,
+    members: await fetchAllMembers(language, category, options),
+    fetchedAt: Date.now(),
+  };
+  memoryCache.set(key, entry);
+  storeCategory(entry);
+
+  return entry.members;
+};
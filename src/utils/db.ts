@@ -0,0 +1,130 @@
+const DB_NAME = "wiki_plot";
+const DB_VERSION = 3;
+
+export const STORES = {
+  watchlist: "watchlist",
+  articles: "articles",
+  categoryMembers: "categoryMembers",
+} as const;
+
+type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      let blocked = false;
+
+      // Create any store missing from an older version of the database
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.watchlist)) {
+          db.createObjectStore(STORES.watchlist, { keyPath: "key" });
+        }
+        if (!db.objectStoreNames.contains(STORES.articles)) {
+          db.createObjectStore(STORES.articles, { keyPath: "key" });
+        }
+        if (!db.objectStoreNames.contains(STORES.categoryMembers)) {
+          db.createObjectStore(STORES.categoryMembers, { keyPath: "key" })
+            .createIndex("fetchedAt", "fetchedAt");
+        }
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // Given up on while blocked, see below
+        if (blocked) {
+          db.close();
+          return;
+        }
+        // Step aside when a newer version opens in another tab, and reopen on next use
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+      // Another tab still has an older version open. Fail now rather than hang,
+      // so callers fall back to the network, and retry on the next call
+      request.onblocked = () => {
+        blocked = true;
+        dbPromise = null;
+        reject(new Error("Database upgrade blocked by another open tab"));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return promisify(run(db.transaction(name, mode).objectStore(name)));
+};
+
+export const getAll = <T>(name: StoreName) =>
+  withStore<T[]>(name, "readonly", (store) => store.getAll());
+
+export const getOne = <T>(name: StoreName, key: IDBValidKey) =>
+  withStore<T | undefined>(name, "readonly", (store) => store.get(key));
+
+export const put = <T>(name: StoreName, value: T) =>
+  withStore(name, "readwrite", (store) => store.put(value));
+
+export const remove = (name: StoreName, key: IDBValidKey) =>
+  withStore(name, "readwrite", (store) => store.delete(key));
+
+// Deletes every record whose `index` value falls in `range`, without reading the records
+export const removeByIndex = async (
+  name: StoreName,
+  index: string,
+  range: IDBKeyRange
+): Promise<void> => {
+  const db = await openDb();
+  const transaction = db.transaction(name, "readwrite");
+  const request = transaction.objectStore(name).index(index).openKeyCursor(range);
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    transaction.objectStore(name).delete(cursor.primaryKey);
+    cursor.continue();
+  };
+
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// Writes and deletes in a single transaction
+export const bulkUpdate = async <T>(
+  name: StoreName,
+  values: T[],
+  keysToDelete: IDBValidKey[] = []
+): Promise<void> => {
+  const db = await openDb();
+  const transaction = db.transaction(name, "readwrite");
+  const store = transaction.objectStore(name);
+  values.forEach((value) => store.put(value));
+  keysToDelete.forEach((key) => store.delete(key));
+
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
@@ -0,0 +1,79 @@
+import { getWikiCode, type Language } from "../languages";
+import { apiGet, pagesOf, type RequestOptions, type WikiQueryResponse } from "./wikiApi";
+
+const ENGLISH_API = "https://en.wikipedia.org/w/api.php?";
+const STORAGE_PREFIX = "categories:";
+
+interface WikiLangLink {
+  lang: string;
+  "*": string;
+}
+
+type WikiLangLinksResponse = WikiQueryResponse<{ title: string; langlinks?: WikiLangLink[] }>;
+
+// English category title -> local title; null means the wiki has no equivalent
+type CategoryMap = Record<string, string | null>;
+
+const categoryCache = new Map<string, CategoryMap>();
+
+const loadCategories = (wiki: string): CategoryMap => {
+  const cached = categoryCache.get(wiki);
+  if (cached) return cached;
+
+  let stored: CategoryMap = {};
+  try {
+    stored = JSON.parse(localStorage.getItem(STORAGE_PREFIX + wiki) || "{}");
+  } catch {
+    // Corrupt entry, start over
+  }
+  categoryCache.set(wiki, stored);
+  return stored;
+};
+
+const saveCategory = (wiki: string, englishTitle: string, category: string | null) => {
+  // Merge into the latest map, other lookups may have finished meanwhile
+  const categories = { ...loadCategories(wiki), [englishTitle]: category };
+  categoryCache.set(wiki, categories);
+  try {
+    localStorage.setItem(STORAGE_PREFIX + wiki, JSON.stringify(categories));
+  } catch {
+    // Storage full or unavailable, the in-memory copy still works
+  }
+};
+
+/**
+ * Finds the local equivalent of an English category by following its
+ * interlanguage (Wikidata) links, e.g. "Category:1999 films" becomes
+ * "Kategorie:Filmtitel 1999" on dewiki or "Category:1999年电影" on zhwiki.
+ * Returns null when the wiki has no such category.
+ */
+export const resolveCategory = async (
+  language: Language,
+  englishTitle: string,
+  options: RequestOptions = {}
+): Promise<string | null> => {
+  const wiki = getWikiCode(language);
+  if (wiki === "en") return englishTitle;
+
+  const categories = loadCategories(wiki);
+  if (englishTitle in categories) return categories[englishTitle];
+
+  try {
+    const data = await apiGet<WikiLangLinksResponse>(ENGLISH_API, {
+      action: "query",
+      titles: englishTitle,
+      prop: "langlinks",
+      lllang: wiki,
+    }, options);
+    const [page] = pagesOf(data);
+    const category = page?.langlinks?.[0]?.["*"] || null;
+
+    saveCategory(wiki, englishTitle, category);
+    return category;
+  } catch (error) {
+    // Don't cache network failures, try again next time
+    if (options.signal?.aborted) return null;
+    console.error(`Error resolving ${englishTitle} on ${wiki}:`, error);
+    return null;
+  }
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { getYearRange, matchesFilters, pickCategoryGenre, type FilterCategories } from "./filmFilters";
+import { DEFAULT_FILTERS, type FeedFilters } from "../filters";
+import { DEFAULT_FEED_SOURCE } from "../feedSources";
+
+const filters = (changes: Partial<FeedFilters>): FeedFilters => ({ ...DEFAULT_FILTERS, ...changes });
+
+const NO_CATEGORIES: FilterCategories = { countries: [], genres: [], animated: null };
+const HORROR: FilterCategories = {
+  ...NO_CATEGORIES,
+  genres: [{ word: "horror", category: "Kategorie:Horrorfilm" }],
+};
+
+describe("getYearRange", () => {
+  it("starts at the source's first year unless a decade says otherwise", () => {
+    expect(getYearRange(filters({ decadeTo: 1990 }), DEFAULT_FEED_SOURCE)).toEqual({ start: 1929, end: 1999 });
+    expect(getYearRange(filters({ decadeFrom: 1900, decadeTo: 1910 }), DEFAULT_FEED_SOURCE)).toEqual({
+      start: 1900,
+      end: 1919,
+    });
+  });
+
+  it("never ends before it starts when the decades predate the source", () => {
+    expect(getYearRange(filters({ decadeTo: 1900 }), DEFAULT_FEED_SOURCE)).toEqual({ start: 1900, end: 1909 });
+  });
+});
+
+describe("pickCategoryGenre", () => {
+  it("keeps the genre when the animated format is on too", () => {
+    expect(pickCategoryGenre(filters({ genres: ["horror"], format: "animated" }))).toBe("horror");
+    expect(pickCategoryGenre(filters({ format: "animated" }))).toBe("animated");
+    expect(pickCategoryGenre(DEFAULT_FILTERS)).toBeUndefined();
+  });
+});
+
+describe("matchesFilters", () => {
+  const matches = (categories: string[], feedFilters: FeedFilters, resolved: FilterCategories, strict = false) =>
+    matchesFilters(categories, feedFilters, DEFAULT_FEED_SOURCE, resolved, strict);
+
+  it("checks genres on local and English-style categories", () => {
+    const horror = filters({ genres: ["horror"] });
+
+    expect(matches(["Kategorie:Horrorfilm"], horror, HORROR)).toBe(true);
+    expect(matches(["Category:1999 supernatural horror films"], horror, HORROR)).toBe(true);
+    expect(matches(["Category:1999 comedy films"], horror, HORROR)).toBe(false);
+  });
+
+  it("requires animated films alongside a genre", () => {
+    const animatedHorror = filters({ genres: ["horror"], format: "animated" });
+
+    expect(matches(["Category:Animated horror films"], animatedHorror, HORROR)).toBe(true);
+    expect(matches(["Category:1999 horror films"], animatedHorror, HORROR)).toBe(false);
+  });
+
+  it("trusts the animated year category unless the pages are random", () => {
+    const animated = filters({ format: "animated" });
+
+    expect(matches(["Category:1999 films"], animated, NO_CATEGORIES)).toBe(true);
+    expect(matches(["Category:1999 films"], animated, NO_CATEGORIES, true)).toBe(false);
+  });
+});
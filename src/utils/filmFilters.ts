@@ -0,0 +1,144 @@
+import { COUNTRIES, DEFAULT_FILTERS, GENRES, type FeedFilters } from "../filters";
+import type { FeedSource } from "../feedSources";
+import type { Language } from "../languages";
+import { resolveCategory } from "./filmCategories";
+import type { RequestOptions } from "./wikiApi";
+import { pickRandom, type Random } from "./random";
+
+// Local category titles needed to check a page against the filters
+export interface FilterCategories {
+  countries: { adjective: string; category: string | null }[];
+  genres: { word: string; category: string | null }[];
+  animated: string | null;
+}
+
+// The filters that make sense for a source, only decades for anything but films
+export const sourceFilters = (filters: FeedFilters, source: FeedSource): FeedFilters =>
+  source.filmFilters
+    ? filters
+    : { ...DEFAULT_FILTERS, decadeFrom: filters.decadeFrom, decadeTo: filters.decadeTo };
+
+/**
+ * Years to draw from, inclusive. Without a start decade the source's
+ * `firstYear` is used, or the end decade when that comes earlier, so the
+ * range is never inverted.
+ */
+export const getYearRange = (filters: FeedFilters, source: FeedSource) => {
+  const currentYear = new Date().getFullYear();
+  const end = filters.decadeTo !== null
+    ? Math.min(filters.decadeTo + 9, currentYear)
+    : currentYear;
+  const start = Math.min(filters.decadeFrom ?? source.firstYear, filters.decadeTo ?? end);
+  return { start, end };
+};
+
+/**
+ * Genre word for the year category to query, undefined for plain
+ * "<year> films". A genre wins over the animated format, which is then
+ * checked on the pages' categories instead.
+ */
+export const pickCategoryGenre = (
+  filters: FeedFilters,
+  random: Random = Math.random
+): string | undefined => {
+  if (filters.genres.length > 0) {
+    const id = pickRandom(filters.genres, random);
+    return GENRES.find((genre) => genre.id === id)?.category;
+  }
+  return filters.format === "animated" ? "animated" : undefined;
+};
+
+export const needsCategoryCheck = (filters: FeedFilters) =>
+  filters.countries.length > 0 || filters.genres.length > 0 || filters.format === "live-action";
+
+export const resolveFilterCategories = async (
+  language: Language,
+  filters: FeedFilters,
+  options: RequestOptions = {}
+): Promise<FilterCategories> => {
+  const countries = await Promise.all(
+    COUNTRIES.filter((country) => filters.countries.includes(country.id)).map(
+      async (country) => ({
+        adjective: country.adjective,
+        category: await resolveCategory(language, `Category:${country.adjective} films`, options),
+      })
+    )
+  );
+
+  const genres = await Promise.all(
+    GENRES.filter((genre) => filters.genres.includes(genre.id)).map(async (genre) => ({
+      word: genre.category,
+      category: await resolveCategory(
+        language,
+        `Category:${genre.category[0].toUpperCase()}${genre.category.slice(1)} films`,
+        options
+      ),
+    }))
+  );
+
+  const animated = filters.format !== "all"
+    ? await resolveCategory(language, "Category:Animated films", options)
+    : null;
+
+  return { countries, genres, animated };
+};
+
+const startsWord = (category: string, word: string) =>
+  new RegExp(`(^|[:\\s])${word}\\s`).test(category);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// English-style genre categories, e.g. "1999 horror films" or "American action comedy films"
+const namesGenre = (category: string, word: string) =>
+  new RegExp(`\\b${escapeRegExp(word)}\\b[^:]*\\bfilms\\b`, "i").test(category);
+
+/**
+ * Checks a page's categories against the country, genre and format filters.
+ * Matches either the local category (e.g. "Kategorie:Französischer Film",
+ * "Kategorie:Horrorfilm") or, on English-style titles, the adjective or genre
+ * word ("French drama films"). Animated films are required when asked for
+ * unless the page came from an animated year category, i.e. with no genre
+ * picked. With `strict`, used for sources that can't query by year, genre or
+ * format (random pages), that's always the case, and pages whose categories
+ * only mention years outside the decade range are rejected.
+ */
+export const matchesFilters = (
+  categories: string[],
+  filters: FeedFilters,
+  source: FeedSource,
+  resolved: FilterCategories,
+  strict = false
+): boolean => {
+  if (resolved.countries.length > 0) {
+    const fromCountry = resolved.countries.some(({ adjective, category }) =>
+      categories.some((title) => title === category || startsWord(title, adjective))
+    );
+    if (!fromCountry) return false;
+  }
+
+  if (resolved.genres.length > 0) {
+    const ofGenre = resolved.genres.some(({ word, category }) =>
+      categories.some((title) => title === category || namesGenre(title, word))
+    );
+    if (!ofGenre) return false;
+  }
+
+  const animated = categories.some(
+    (title) => title === resolved.animated || /animat/i.test(title)
+  );
+  if (filters.format === "live-action" && animated) return false;
+  const animatedCategoryUsed = !strict && filters.genres.length === 0;
+  if (filters.format === "animated" && !animated && !animatedCategoryUsed) return false;
+
+  if (strict && (filters.decadeFrom !== null || filters.decadeTo !== null)) {
+    const { start, end } = getYearRange(filters, source);
+    const years = categories.flatMap(
+      (title) => title.match(/\b(18|19|20)\d{2}\b/g)?.map(Number) || []
+    );
+    if (years.length > 0 && !years.some((year) => year >= start && year <= end)) {
+      return false;
+    }
+  }
+
+  return true;
+};
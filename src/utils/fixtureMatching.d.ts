@@ -0,0 +1,10 @@
+import type { ApiFixture, FixtureSet } from "./apiBackends";
+
+export function findFixture(
+  fixtures: FixtureSet,
+  uses: Map<ApiFixture, number>,
+  host: string,
+  params: URLSearchParams
+): ApiFixture | undefined;
+
+export function narrowResponse(response: unknown, params: URLSearchParams): unknown;
@@ -0,0 +1,47 @@
+// Fixture matching shared by fixtureBackend (src/utils/apiBackends.ts) and
+// scripts/mock-api.js. Plain JavaScript so Node can run it without a build,
+// typed in fixtureMatching.d.ts.
+
+const globMatches = (pattern, value) =>
+  new RegExp(
+    "^" + pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*") + "$",
+    "s"
+  ).test(value);
+
+/**
+ * The first fixture of `host` whose `params` the request all has and that
+ * hasn't used up its `times`, counted in `uses`. Undefined when none does.
+ */
+export const findFixture = (fixtures, uses, host, params) =>
+  (fixtures[host] || []).find(
+    (candidate) =>
+      (candidate.times === undefined || (uses.get(candidate) || 0) < candidate.times) &&
+      Object.entries(candidate.params).every(
+        ([name, pattern]) => params.has(name) && globMatches(pattern, params.get(name))
+      )
+  );
+
+const listParam = (params, name) => (params.has(name) ? new Set(params.get(name).split("|")) : null);
+
+// Like the real API, a lookup by titles, pageids or ids only returns those
+export const narrowResponse = (response, params) => {
+  const titles = listParam(params, "titles");
+  const pageids = listParam(params, "pageids");
+  const ids = listParam(params, "ids");
+
+  if (response.query?.pages && (titles || pageids)) {
+    const pages = Object.fromEntries(
+      Object.entries(response.query.pages).filter(
+        ([, page]) => titles?.has(page.title) || pageids?.has(String(page.pageid))
+      )
+    );
+    return { ...response, query: { ...response.query, pages } };
+  }
+  if (response.entities && ids) {
+    return {
+      ...response,
+      entities: Object.fromEntries(Object.entries(response.entities).filter(([id]) => ids.has(id))),
+    };
+  }
+  return response;
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { getCardImage, isUsableImage, resizeUpload } from "./images";
+import type { WikiArticle } from "../components/WikiCard";
+
+const THUMB = "https://upload.wikimedia.org/wikipedia/en/thumb/c/c1/The_Matrix_Poster.jpg/600px-The_Matrix_Poster.jpg";
+
+const film = (overrides: Partial<WikiArticle> = {}): WikiArticle => ({
+  title: "The Matrix",
+  displaytitle: "The Matrix",
+  extract: "The Matrix is a 1999 science fiction action film written and directed by the Wachowskis.",
+  pageid: "30007",
+  url: "https://en.wikipedia.org/wiki/The_Matrix",
+  thumbnail: { source: THUMB, width: 600, height: 889, originalWidth: 1000 },
+  ...overrides,
+});
+
+describe("resizeUpload", () => {
+  it("rescales thumbnails and originals on upload.wikimedia.org", () => {
+    expect(resizeUpload(THUMB, 320)).toBe(
+      "https://upload.wikimedia.org/wikipedia/en/thumb/c/c1/The_Matrix_Poster.jpg/320px-The_Matrix_Poster.jpg"
+    );
+    expect(resizeUpload("https://upload.wikimedia.org/wikipedia/commons/a/ab/Still.jpg", 40)).toBe(
+      "https://upload.wikimedia.org/wikipedia/commons/thumb/a/ab/Still.jpg/40px-Still.jpg"
+    );
+  });
+
+  it("leaves other images alone", () => {
+    expect(resizeUpload("data:image/svg+xml,%3Csvg%3E", 320)).toBeNull();
+  });
+});
+
+describe("isUsableImage", () => {
+  it("rejects icons and banner shapes", () => {
+    expect(isUsableImage({ width: 400, height: 600 })).toBe(true);
+    expect(isUsableImage({ width: 1920, height: 1080 })).toBe(true);
+    expect(isUsableImage({ width: 120, height: 180 })).toBe(false);
+    expect(isUsableImage({ width: 1200, height: 300 })).toBe(false);
+    expect(isUsableImage({ width: 300, height: 900 })).toBe(false);
+  });
+});
+
+describe("getCardImage", () => {
+  it("offers sizes up to the original width, with a tiny placeholder", () => {
+    const image = getCardImage(film())!;
+
+    expect(image.src).toBe(THUMB);
+    expect(image.srcSet?.split(", ").map((candidate) => candidate.split(" ")[1])).toEqual([
+      "320w",
+      "480w",
+      "640w",
+      "960w",
+    ]);
+    expect(image.placeholder).toContain("/40px-The_Matrix_Poster.jpg");
+  });
+
+  it("prefers the Wikidata poster unless it failed to load", () => {
+    const article = film({ metadata: { cast: [], genres: [], countries: [], poster: "The Matrix poster.jpg" } });
+
+    expect(getCardImage(article)).toMatchObject({
+      isPoster: true,
+      src: "https://commons.wikimedia.org/wiki/Special:FilePath/The_Matrix_poster.jpg?width=640",
+    });
+    expect(getCardImage(article, false)?.src).toBe(THUMB);
+  });
+});
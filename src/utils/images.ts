@@ -0,0 +1,121 @@
+import type { WikiArticle } from "../components/WikiCard";
+
+// Widths offered in srcset, the browser picks one for the viewport and pixel density
+const SRCSET_WIDTHS = [320, 480, 640, 960, 1280];
+// Blurred and scaled up while the real image loads
+const PLACEHOLDER_WIDTH = 40;
+// Cards are full screen on phones and a 650px square on larger screens
+export const CARD_IMAGE_SIZES = "(min-width: 768px) 650px, 100vw";
+
+// Smaller than this on the short side and it's an icon or a logo
+const MIN_IMAGE_SIDE = 200;
+// Width / height outside this range is a banner, a panorama or a strip, not a poster or still
+const MIN_ASPECT = 0.5;
+const MAX_ASPECT = 1.8;
+
+const PRELOAD_TIMEOUT_MS = 4000;
+
+const COMMONS_FILE_PATH = "https://commons.wikimedia.org/wiki/Special:FilePath/";
+
+export interface CardImage {
+  src: string;
+  srcSet?: string;
+  // Tiny version of the same image, undefined when it can't be resized
+  placeholder?: string;
+  isPoster: boolean;
+  // upload.wikimedia.org sends CORS headers, so those images are fetched in
+  // CORS mode and the service worker caches them as normal responses
+  crossOrigin?: "anonymous";
+}
+
+// Big enough to fill a card without looking like a logo, and roughly card shaped
+export const isUsableImage = ({ width, height }: { width: number; height: number }) =>
+  Math.min(width, height) >= MIN_IMAGE_SIDE &&
+  width / height >= MIN_ASPECT &&
+  width / height <= MAX_ASPECT;
+
+/**
+ * URL of an upload.wikimedia.org image scaled to `width`, either from a
+ * thumbnail (".../thumb/a/ab/File.jpg/600px-File.jpg") or the original
+ * (".../a/ab/File.jpg"). Null for anything else, e.g. local images.
+ */
+export const resizeUpload = (source: string, width: number): string | null => {
+  const thumb = source.match(/^(https:\/\/upload\.wikimedia\.org\/.+\/thumb\/.+\/)\d+px-([^/]+)$/);
+  if (thumb) return `${thumb[1]}${width}px-${thumb[2]}`;
+
+  const original = source.match(/^(https:\/\/upload\.wikimedia\.org\/[^/]+\/[^/]+\/)([0-9a-f]\/[0-9a-f]{2}\/([^/]+))$/);
+  if (original) return `${original[1]}thumb/${original[2]}/${width}px-${original[3]}`;
+
+  return null;
+};
+
+const commonsFile = (file: string, width: number) =>
+  `${COMMONS_FILE_PATH}${encodeURIComponent(file.replace(/ /g, "_"))}?width=${width}`;
+
+/**
+ * Image to show on a card: the Wikidata poster when there is one, otherwise
+ * the page image in sizes up to its original width (thumbnails can't be
+ * scaled up). Undefined for films without any image. Pass `withPoster`
+ * false to go back to the page image when the poster doesn't load or
+ * turns out not to be card shaped.
+ */
+export const getCardImage = (article: WikiArticle, withPoster = true): CardImage | undefined => {
+  const poster = withPoster ? article.metadata?.poster : undefined;
+  if (poster) {
+    return {
+      isPoster: true,
+      src: commonsFile(poster, 640),
+      srcSet: SRCSET_WIDTHS.map((width) => `${commonsFile(poster, width)} ${width}w`).join(", "),
+      placeholder: commonsFile(poster, PLACEHOLDER_WIDTH),
+    };
+  }
+
+  const { thumbnail } = article;
+  if (!thumbnail) return undefined;
+
+  const maxWidth = thumbnail.originalWidth ?? thumbnail.width;
+  const sizes = SRCSET_WIDTHS.filter((width) => width <= maxWidth)
+    .map((width) => [width, resizeUpload(thumbnail.source, width)] as const)
+    .filter(([, source]) => source);
+
+  return {
+    isPoster: false,
+    crossOrigin: thumbnail.source.startsWith("https://upload.wikimedia.org/") ? "anonymous" : undefined,
+    src: thumbnail.source,
+    srcSet: sizes.length
+      ? sizes.map(([width, source]) => `${source} ${width}w`).join(", ")
+      : undefined,
+    placeholder: resizeUpload(thumbnail.source, PLACEHOLDER_WIDTH) ?? undefined,
+  };
+};
+
+const loadImage = (image: CardImage, src: string, srcSet?: string) =>
+  new Promise<void>((resolve) => {
+    const img = new Image();
+    img.onload = () => resolve();
+    img.onerror = () => resolve();
+    // Same mode as the card's <img>, otherwise the browser won't reuse the response
+    if (image.crossOrigin) img.crossOrigin = image.crossOrigin;
+    // Same candidates as the card's <img>, so the browser caches the one it'll use
+    if (srcSet) {
+      img.sizes = CARD_IMAGE_SIZES;
+      img.srcset = srcSet;
+    }
+    img.src = src;
+  });
+
+/**
+ * Warms the cache for an upcoming card: the placeholder first since it's
+ * tiny, then the full image at the size the card will ask for. Always
+ * resolves, at the latest after PRELOAD_TIMEOUT_MS.
+ */
+export const preloadCardImage = async (article: WikiArticle) => {
+  const image = getCardImage(article);
+  if (!image) return;
+
+  const timeout = new Promise<void>((resolve) => setTimeout(resolve, PRELOAD_TIMEOUT_MS));
+  if (image.placeholder) {
+    await Promise.race([loadImage(image, image.placeholder), timeout]);
+  }
+  await Promise.race([loadImage(image, image.src, image.srcSet), timeout]);
+};
@@ -0,0 +1,96 @@
+import { LANGUAGES, getWikiCode, type Language } from "../languages";
+import { apiGet, pagesOf, type RequestOptions, type WikiQueryResponse } from "./wikiApi";
+
+export interface LanguageLink {
+  language: Language;
+  // Article title on the other wiki
+  title: string;
+}
+
+export interface FilmTranslation {
+  language: Language;
+  title: string;
+  displaytitle: string;
+  extract: string;
+  url: string;
+}
+
+type WikiLangLinksResponse = WikiQueryResponse<{ langlinks?: { lang: string; "*": string }[] }>;
+
+type WikiTranslationResponse = WikiQueryResponse<{
+  missing?: string;
+  title: string;
+  extract?: string;
+  canonicalurl?: string;
+  varianttitles?: Record<string, string>;
+}>;
+
+const linksCache = new Map<string, LanguageLink[]>();
+const translationCache = new Map<string, FilmTranslation | null>();
+
+/**
+ * Languages from the LANGUAGES table the film has an article in, through the
+ * page's interlanguage links. Wikis with script variants (zh, gan, wuu) give
+ * one entry per variant; the current wiki itself is left out.
+ */
+export const fetchLanguageLinks = async (
+  language: Language,
+  pageid: string,
+  options: RequestOptions = {}
+): Promise<LanguageLink[]> => {
+  const cacheKey = `${language.id}:${pageid}`;
+  const cached = linksCache.get(cacheKey);
+  if (cached) return cached;
+
+  const data = await apiGet<WikiLangLinksResponse>(language.api, {
+    action: "query",
+    pageids: pageid,
+    prop: "langlinks",
+    lllimit: "max",
+  }, options);
+  const titles = new Map(
+    (data.query?.pages?.[pageid]?.langlinks || []).map((link) => [link.lang, link["*"]])
+  );
+
+  const links = LANGUAGES.filter((other) => titles.has(getWikiCode(other)))
+    .map((other) => ({ language: other, title: titles.get(getWikiCode(other))! }))
+    .sort((a, b) => a.language.name.localeCompare(b.language.name));
+
+  linksCache.set(cacheKey, links);
+  return links;
+};
+
+// Intro of the linked article, null when the other wiki has nothing usable
+export const fetchTranslation = async (
+  link: LanguageLink,
+  options: RequestOptions = {}
+): Promise<FilmTranslation | null> => {
+  const cacheKey = `${link.language.id}:${link.title}`;
+  if (translationCache.has(cacheKey)) return translationCache.get(cacheKey)!;
+
+  const data = await apiGet<WikiTranslationResponse>(link.language.api, {
+    action: "query",
+    titles: link.title,
+    redirects: "1",
+    prop: "extracts|info",
+    inprop: "url|varianttitles",
+    exintro: "1",
+    exsentences: "3",
+    explaintext: "1",
+    variant: link.language.id,
+  }, options);
+  const [page] = pagesOf(data);
+
+  const translation = page && !("missing" in page) && page.extract && page.canonicalurl
+    ? {
+        language: link.language,
+        title: page.title,
+        displaytitle: page.varianttitles?.[link.language.id] || page.title,
+        extract: page.extract,
+        url: page.canonicalurl,
+      }
+    : null;
+
+  translationCache.set(cacheKey, translation);
+  return translation;
+};
@@ -0,0 +1,48 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { addRecentLanguage, detectLanguage, getRecentLanguages } from "./languagePreferences";
+import { LANGUAGES } from "../languages";
+
+const detectedId = (preferred: string[]) => detectLanguage(preferred)?.id;
+
+describe("detectLanguage", () => {
+  it("takes the first preferred language with a wiki", () => {
+    expect(detectedId(["xx", "de-AT", "fr"])).toBe("de");
+    expect(detectedId(["pt-BR"])).toBe("pt");
+    expect(detectedId(["sr-Latn-RS"])).toBe("sr");
+  });
+
+  it("returns undefined when none of them has one", () => {
+    expect(detectLanguage(["xx", "yy-ZZ"])).toBeUndefined();
+  });
+
+  it("maps Chinese tags to the matching variant", () => {
+    expect(detectedId(["zh"])).toBe("zh-cn");
+    expect(detectedId(["zh-CN"])).toBe("zh-cn");
+    expect(detectedId(["zh-SG"])).toBe("zh-sg");
+    expect(detectedId(["zh-TW"])).toBe("zh-tw");
+    expect(detectedId(["zh-Hant"])).toBe("zh-tw");
+    expect(detectedId(["zh-Hant-HK"])).toBe("zh-hk");
+    expect(detectedId(["zh_MO"])).toBe("zh-mo");
+    // The script wins over a region written in the other one
+    expect(detectedId(["zh-Hans-HK"])).toBe("zh-cn");
+    expect(detectedId(["yue"])).toBe("yue-hant");
+    expect(detectedId(["wuu-Hans"])).toBe("wuu-hans");
+  });
+});
+
+describe("recent languages", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("keeps the most recent first, without duplicates", () => {
+    const [en, ar, bn, ca, cs] = LANGUAGES;
+    [en, ar, bn, ar, ca, cs].forEach(addRecentLanguage);
+
+    expect(getRecentLanguages().map((language) => language.id)).toEqual(["cs", "ca", "ar", "bn"]);
+  });
+
+  it("ignores a corrupt entry", () => {
+    localStorage.setItem("recentLanguages", "{");
+
+    expect(getRecentLanguages()).toEqual([]);
+  });
+});
@@ -0,0 +1,87 @@
+import { LANGUAGES, type Language } from "../languages";
+
+const RECENT_KEY = "recentLanguages";
+
+// Shown on top of the language picker, most recent first
+const MAX_RECENT = 4;
+
+// zh-* wikis by region, each written in one script
+const CHINESE_REGIONS: Record<string, { id: string; script: "hans" | "hant" }> = {
+  cn: { id: "zh-cn", script: "hans" },
+  sg: { id: "zh-sg", script: "hans" },
+  my: { id: "zh-my", script: "hans" },
+  tw: { id: "zh-tw", script: "hant" },
+  hk: { id: "zh-hk", script: "hant" },
+  mo: { id: "zh-mo", script: "hant" },
+};
+
+// Other Chinese languages only come in the variants listed in LANGUAGES
+const CHINESE_LANGUAGES: Record<string, { hans?: string; hant: string }> = {
+  gan: { hans: "gan-hans", hant: "gan-hant" },
+  wuu: { hans: "wuu-hans", hant: "wuu-hant" },
+  yue: { hant: "yue-hant" },
+};
+
+const findLanguage = (id: string | undefined) => LANGUAGES.find((lang) => lang.id === id);
+
+/**
+ * LANGUAGES id for a Chinese BCP 47 tag such as "zh-TW", "zh-Hant-HK" or
+ * "zh-Hans". The region picks the variant unless the script contradicts it,
+ * then the script's main variant is used; plain "zh" means Simplified.
+ */
+const chineseVariant = ([base, ...subtags]: string[]) => {
+  const script = subtags.find((subtag) => subtag === "hans" || subtag === "hant");
+  const region = CHINESE_REGIONS[subtags.find((subtag) => subtag in CHINESE_REGIONS) ?? ""];
+
+  if (base !== "zh") {
+    const variants = CHINESE_LANGUAGES[base];
+    return (script === "hans" && variants.hans) || variants.hant;
+  }
+  if (region && (!script || script === region.script)) return region.id;
+  return script === "hant" ? "zh-tw" : "zh-cn";
+};
+
+/**
+ * First of the browser's preferred languages (`navigator.languages`) that
+ * has a wiki here, matching the full tag before the base language, e.g.
+ * "pt-BR" gives Portuguese. Undefined when none of them do.
+ */
+export const detectLanguage = (
+  preferred: readonly string[] = navigator.languages ?? [navigator.language]
+): Language | undefined => {
+  for (const tag of preferred) {
+    const subtags = tag.toLowerCase().split(/[-_]/);
+    const [base] = subtags;
+    const match =
+      base === "zh" || base in CHINESE_LANGUAGES
+        ? findLanguage(chineseVariant(subtags))
+        : findLanguage(subtags.join("-")) || findLanguage(base);
+    if (match) return match;
+  }
+  return undefined;
+};
+
+export const getRecentLanguages = (): Language[] => {
+  let ids: string[] = [];
+  try {
+    ids = JSON.parse(localStorage.getItem(RECENT_KEY) || "[]");
+  } catch {
+    // Corrupt entry, start over
+  }
+  return ids.map(findLanguage).filter((lang): lang is Language => !!lang);
+};
+
+// Moves a language to the front of the recently used ones
+export const addRecentLanguage = (language: Language) => {
+  const ids = [
+    language.id,
+    ...getRecentLanguages()
+      .map((lang) => lang.id)
+      .filter((id) => id !== language.id),
+  ].slice(0, MAX_RECENT);
+  try {
+    localStorage.setItem(RECENT_KEY, JSON.stringify(ids));
+  } catch {
+    // Storage full or unavailable, the picker just loses its recents
+  }
+};
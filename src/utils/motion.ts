@@ -0,0 +1,5 @@
+// Users who asked their OS for less motion get instant jumps instead of smooth scrolling
+export const prefersReducedMotion = () =>
+  window.matchMedia?.("(prefers-reduced-motion: reduce)").matches ?? false;
+
+export const scrollBehavior = (): ScrollBehavior => (prefersReducedMotion() ? "auto" : "smooth");
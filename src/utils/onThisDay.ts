@@ -0,0 +1,86 @@
+import { getWikiCode, type Language } from "../languages";
+import type { FeedSource } from "../feedSources";
+import { sparqlGet, type RequestOptions } from "./wikiApi";
+
+const SPARQL_API = "https://query.wikidata.org/sparql?";
+
+// Years per query, keeps the list of dates well within URL length limits
+const YEARS_PER_QUERY = 40;
+
+export interface Anniversary {
+  // Article title on the current wiki
+  title: string;
+  // Year it came out on this day
+  year: number;
+}
+
+interface SparqlResponse {
+  results: {
+    bindings: { title: { value: string }; date: { value: string } }[];
+  };
+}
+
+const anniversaryCache = new Map<string, Anniversary[]>();
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Day-precision release dates are stored as midnight UTC, so they can be matched exactly
+const releaseDate = (year: number, date: Date) =>
+  `"${String(year).padStart(4, "0")}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T00:00:00Z"^^xsd:dateTime`;
+
+const buildQuery = (language: Language, source: FeedSource, years: number[], date: Date) => `
+SELECT DISTINCT ?title ?date WHERE {
+  VALUES ?date { ${years.map((year) => releaseDate(year, date)).join(" ")} }
+  VALUES ?class { ${source.classes.map((id) => `wd:${id}`).join(" ")} }
+  ?item wdt:P577 ?date; wdt:P31 ?class.
+  ?article schema:about ?item;
+    schema:isPartOf <${new URL(language.article).origin}/>;
+    schema:name ?title.
+}`;
+
+/**
+ * Works of the feed source released (P577) on `date`'s month and day in an
+ * earlier year between `start` and `end`, with an article on the language's
+ * wiki. Looking up exact dates lets the query service use its index instead
+ * of scanning every film. Cached per wiki, source, day and years.
+ */
+export const findAnniversaries = async (
+  language: Language,
+  source: FeedSource,
+  date: Date,
+  { start, end }: { start: number; end: number },
+  options: RequestOptions = {}
+): Promise<Anniversary[]> => {
+  const cacheKey = `${getWikiCode(language)}:${source.id}:${date.getMonth()}-${date.getDate()}:${start}-${end}`;
+  const cached = anniversaryCache.get(cacheKey);
+  if (cached) return cached;
+
+  // Past years only, this year's releases aren't anniversaries yet
+  const last = Math.min(end, date.getFullYear() - 1);
+  const chunks: number[][] = [];
+  for (let year = start; year <= last; year += YEARS_PER_QUERY) {
+    chunks.push(
+      Array.from({ length: Math.min(YEARS_PER_QUERY, last - year + 1) }, (_, i) => year + i)
+    );
+  }
+
+  const responses = await Promise.all(
+    chunks.map((years) =>
+      sparqlGet<SparqlResponse>(SPARQL_API, buildQuery(language, source, years, date), options)
+    )
+  );
+
+  // A work with several release dates on this day in different years counts once, first release
+  const anniversaries = new Map<string, Anniversary>();
+  responses
+    .flatMap((response) => response.results.bindings)
+    .forEach(({ title, date: released }) => {
+      const year = parseInt(released.value, 10);
+      const known = anniversaries.get(title.value);
+      if (!known || year < known.year) anniversaries.set(title.value, { title: title.value, year });
+    });
+
+  const result = [...anniversaries.values()];
+  anniversaryCache.set(cacheKey, result);
+  return result;
+};
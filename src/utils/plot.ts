@@ -0,0 +1,169 @@
+import { getWikiCode, type Language } from "../languages";
+import { apiGet, type RequestOptions, type WikiQueryResponse } from "./wikiApi";
+
+export interface Plot {
+  // Heading the text came from, or null when falling back to the intro
+  section: string | null;
+  paragraphs: string[];
+}
+
+type WikiExtractResponse = WikiQueryResponse<{ extract?: string }>;
+
+const CHINESE_PLOT_SECTIONS = ["剧情", "劇情", "剧情简介", "劇情簡介", "情节", "情節", "故事", "故事大綱", "故事大纲"];
+
+// Section headings used for film plots, per wiki
+const PLOT_SECTIONS: Record<string, string[]> = {
+  en: ["Plot", "Plot summary", "Synopsis", "Story", "Premise"],
+  ar: ["القصة", "الحبكة", "ملخص القصة", "ملخص"],
+  bn: ["কাহিনী", "কাহিনি", "কাহিনী সংক্ষেপ", "কাহিনিসংক্ষেপ"],
+  ca: ["Argument", "Sinopsi"],
+  cs: ["Děj", "Obsah"],
+  de: ["Handlung", "Inhalt"],
+  el: ["Υπόθεση", "Πλοκή"],
+  eo: ["Intrigo", "Enhavo", "Rakonto"],
+  es: ["Sinopsis", "Argumento", "Trama"],
+  eu: ["Argumentua", "Sinopsia"],
+  fa: ["داستان", "خلاصه داستان", "خلاصه"],
+  fi: ["Juoni", "Tarina"],
+  fr: ["Synopsis", "Résumé", "Intrigue", "Histoire"],
+  gan: CHINESE_PLOT_SECTIONS,
+  he: ["עלילה", "תקציר העלילה", "תקציר"],
+  hi: ["कथानक", "कहानी", "कथासार"],
+  hr: ["Radnja", "Sadržaj"],
+  hu: ["Cselekmény", "Történet"],
+  id: ["Alur", "Alur cerita", "Sinopsis"],
+  it: ["Trama"],
+  ja: ["あらすじ", "ストーリー"],
+  ko: ["줄거리"],
+  ml: ["കഥാസംഗ്രഹം", "കഥ"],
+  nl: ["Verhaal", "Inhoud", "Synopsis"],
+  pl: ["Fabuła", "Opis fabuły"],
+  pt: ["Sinopse", "Enredo", "Trama"],
+  ro: ["Rezumat", "Subiect", "Intriga"],
+  ru: ["Сюжет"],
+  sk: ["Dej", "Obsah"],
+  sr: ["Радња", "Radnja"],
+  sv: ["Handling"],
+  te: ["కథ", "కథాంశం"],
+  th: ["เรื่องย่อ", "เนื้อเรื่อง"],
+  tr: ["Konu", "Özet"],
+  uk: ["Сюжет"],
+  ur: ["کہانی", "خلاصہ"],
+  vi: ["Nội dung", "Cốt truyện", "Tóm tắt"],
+  wuu: CHINESE_PLOT_SECTIONS,
+  zh: CHINESE_PLOT_SECTIONS,
+  "zh-yue": CHINESE_PLOT_SECTIONS,
+};
+
+const plotCache = new Map<string, Plot>();
+
+const HEADING = /^(={2,6})\s*(.+?)\s*\1$/;
+
+const toParagraphs = (lines: string[]) =>
+  lines.map(line => line.trim()).filter(line => line.length > 0);
+
+const isPlotHeading = (heading: string, names: string[]) => {
+  const normalized = heading.toLocaleLowerCase();
+  return names.some(name => normalized === name.toLocaleLowerCase());
+};
+
+/**
+ * Picks the plot section out of a plaintext extract fetched with
+ * exsectionformat=wiki. Subsections (e.g. "Act I") are kept with the plot,
+ * and the intro is returned when no heading matches.
+ */
+export const findPlotSection = (extract: string, names: string[]): Plot => {
+  const lines = extract.split("\n");
+  const firstHeading = lines.findIndex(line => HEADING.test(line.trim()));
+  const intro = toParagraphs(firstHeading === -1 ? lines : lines.slice(0, firstHeading));
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].trim().match(HEADING);
+    if (!match || !isPlotHeading(match[2], names)) continue;
+
+    const level = match[1].length;
+    const body: string[] = [];
+    for (let j = i + 1; j < lines.length; j++) {
+      const next = lines[j].trim().match(HEADING);
+      if (next && next[1].length <= level) break;
+      if (!next) body.push(lines[j]);
+    }
+
+    const paragraphs = toParagraphs(body);
+    if (paragraphs.length > 0) {
+      return { section: match[2], paragraphs };
+    }
+  }
+
+  return { section: null, paragraphs: intro };
+};
+
+export const fetchPlot = async (
+  language: Language,
+  pageid: string,
+  options: RequestOptions = {}
+): Promise<Plot> => {
+  const cacheKey = `${language.id}:${pageid}`;
+  const cached = plotCache.get(cacheKey);
+  if (cached) return cached;
+
+  const data = await apiGet<WikiExtractResponse>(language.api, {
+    action: "query",
+    pageids: pageid,
+    prop: "extracts",
+    explaintext: "1",
+    exsectionformat: "wiki",
+    variant: language.id,
+  }, options);
+  const extract = data.query?.pages?.[pageid]?.extract || "";
+
+  const wiki = getWikiCode(language);
+  const names = [...(PLOT_SECTIONS[wiki] || []), ...PLOT_SECTIONS.en];
+  const plot = findPlotSection(extract, names);
+
+  plotCache.set(cacheKey, plot);
+  return plot;
+};
+
+export interface PlotParts {
+  premise: string[];
+  resolution: string[];
+}
+
+// Share of the plot text shown as the setup in spoiler-safe mode
+const PREMISE_SHARE = 0.35;
+
+const splitSentences = (text: string) =>
+  text.match(/[^.!?。！？]+(?:[.!?。！？]+["'”’»）)]*\s*|$)/g)?.filter(s => s.trim()) || [text];
+
+/**
+ * Splits a plot into the setup and everything after it. Whole paragraphs
+ * are taken until roughly a third of the text is covered; a single
+ * paragraph is split by sentences instead. Plots too short to split are
+ * returned as premise only.
+ */
+export const splitPlot = (paragraphs: string[]): PlotParts => {
+  if (paragraphs.length === 1) {
+    const sentences = splitSentences(paragraphs[0]);
+    if (sentences.length < 3) return { premise: paragraphs, resolution: [] };
+
+    const cut = Math.max(1, Math.round(sentences.length * PREMISE_SHARE));
+    return {
+      premise: [sentences.slice(0, cut).join("").trim()],
+      resolution: [sentences.slice(cut).join("").trim()],
+    };
+  }
+
+  const total = paragraphs.reduce((sum, paragraph) => sum + paragraph.length, 0);
+  let covered = 0;
+  let cut = 0;
+  while (cut < paragraphs.length - 1 && covered < total * PREMISE_SHARE) {
+    covered += paragraphs[cut].length;
+    cut++;
+  }
+
+  return {
+    premise: paragraphs.slice(0, cut),
+    resolution: paragraphs.slice(cut),
+  };
+};
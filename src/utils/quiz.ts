@@ -0,0 +1,45 @@
+import type { WikiArticle } from "../components/WikiCard";
+import { shuffle } from "./random";
+
+const MASK = "▇▇▇";
+
+// Too common to give anything away
+const STOPWORDS = new Set(["the", "and", "for", "from", "with", "der", "die", "das", "les", "des", "del", "los", "las", "und"]);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Unicode-aware whole-word match, \b only understands ASCII
+const wholeWord = (word: string) =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(word)}(?![\\p{L}\\p{N}])`, "giu");
+
+// "Alien (1979 film)" -> "Alien"
+export const stripDisambiguation = (title: string) =>
+  title.replace(/\s*[(（][^)）]*[)）]\s*$/, "").trim();
+
+/**
+ * Hides the title in a plot extract: the full title first (which also covers
+ * languages written without spaces), then each distinctive word of it.
+ */
+export const maskTitle = (text: string, title: string) => {
+  const name = stripDisambiguation(title);
+  let masked = name ? text.split(name).join(MASK) : text;
+
+  name
+    .split(/[\s\-:,.!?'"]+/u)
+    .filter((word) => word.length >= 3 && !STOPWORDS.has(word.toLocaleLowerCase()))
+    .forEach((word) => {
+      masked = masked.replace(wholeWord(word), MASK);
+    });
+
+  return masked;
+};
+
+// The answer plus up to three other films, in random order
+export const pickChoices = (answer: WikiArticle, pool: WikiArticle[], count = 4) => {
+  const decoys = shuffle(
+    Array.from(new Map(pool.map((article) => [article.pageid, article])).values())
+      .filter((article) => article.pageid !== answer.pageid)
+  ).slice(0, count - 1);
+
+  return shuffle([answer, ...decoys]);
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { createRandom, getFeedSeed, shuffle } from "./random";
+
+const draw = (seed: string, count = 5) => {
+  const random = createRandom(seed);
+  return Array.from({ length: count }, random);
+};
+
+describe("createRandom", () => {
+  it("repeats the same sequence for the same seed", () => {
+    expect(draw("2026-10-19")).toEqual(draw("2026-10-19"));
+    expect(draw("2026-10-19")).not.toEqual(draw("2026-10-20"));
+  });
+
+  it("stays within [0, 1)", () => {
+    expect(draw("bounds", 1000).every((value) => value >= 0 && value < 1)).toBe(true);
+  });
+});
+
+describe("shuffle", () => {
+  it("returns a permutation and leaves the input alone", () => {
+    const items = [1, 2, 3, 4, 5, 6];
+    const shuffled = shuffle(items, createRandom("permutation"));
+
+    expect([...shuffled].sort()).toEqual(items);
+    expect(items).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it("puts every item first about equally often", () => {
+    const random = createRandom("uniform");
+    const firsts = [0, 0, 0, 0];
+    const rounds = 8000;
+    for (let i = 0; i < rounds; i++) {
+      firsts[shuffle([0, 1, 2, 3], random)[0]]++;
+    }
+
+    firsts.forEach((count) => expect(Math.abs(count - rounds / 4)).toBeLessThan(rounds * 0.03));
+  });
+});
+
+describe("getFeedSeed", () => {
+  it("reads ?seed= and resolves today to the UTC date", () => {
+    expect(getFeedSeed("?seed=movie-night")).toBe("movie-night");
+    expect(getFeedSeed("?seed=today")).toBe(new Date().toISOString().slice(0, 10));
+    expect(getFeedSeed("?seed=")).toBeNull();
+    expect(getFeedSeed("")).toBeNull();
+  });
+});
@@ -0,0 +1,55 @@
+// Returns numbers in [0, 1), like Math.random
+export type Random = () => number;
+
+// cyrb53-style string hash, turns any seed text into 32 well-mixed bits
+const hashSeed = (seed: string) => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < seed.length; i++) {
+    const char = seed.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  return h1 >>> 0;
+};
+
+/**
+ * Small seeded generator (mulberry32): the same seed always yields the same
+ * sequence, in every browser. Not for anything security related.
+ */
+export const createRandom = (seed: string): Random => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Unbiased Fisher–Yates shuffle into a new array
+export const shuffle = <T>(items: T[], random: Random = Math.random): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+export const pickRandom = <T>(items: T[], random: Random = Math.random): T =>
+  items[Math.floor(random() * items.length)];
+
+const SEED_PARAM = "seed";
+
+/**
+ * Seed from a `?seed=` link, null for the usual random feed. `today` stands
+ * for the current UTC date, so a "today's feed" link changes daily but is
+ * the same for everyone on a given day.
+ */
+export const getFeedSeed = (search = window.location.search): string | null => {
+  const seed = new URLSearchParams(search).get(SEED_PARAM)?.trim();
+  if (!seed) return null;
+  return seed === "today" ? new Date().toISOString().slice(0, 10) : seed;
+};
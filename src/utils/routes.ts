@@ -0,0 +1,33 @@
+// Client-side routes, relative to the deployment base (e.g. /wiki_plot/)
+const BASE = import.meta.env.BASE_URL;
+
+export interface FilmRoute {
+  languageId: string;
+  pageid: string;
+}
+
+// Matches film/<lang>/<pageid> with an optional readable slug after it
+const FILM_ROUTE = /^film\/([^/]+)\/(\d+)(?:\/[^/]*)?\/?$/;
+
+export const parseFilmRoute = (pathname = window.location.pathname): FilmRoute | null => {
+  const path = pathname.startsWith(BASE)
+    ? pathname.slice(BASE.length)
+    : pathname.replace(/^\//, "");
+  const match = path.match(FILM_ROUTE);
+  return match
+    ? { languageId: decodeURIComponent(match[1]), pageid: match[2] }
+    : null;
+};
+
+/**
+ * Absolute link that opens the feed at a film, e.g.
+ * https://example.org/wiki_plot/film/en/12345/The_Matrix. The slug is only
+ * there so link previews and chat apps show something readable.
+ */
+export const filmUrl = (languageId: string, pageid: string, title?: string) => {
+  const slug = title ? `/${encodeURIComponent(title.replace(/\s+/g, "_"))}` : "";
+  return new URL(
+    `${BASE}film/${encodeURIComponent(languageId)}/${pageid}${slug}`,
+    window.location.origin
+  ).href;
+};
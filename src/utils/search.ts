@@ -0,0 +1,73 @@
+import type { Language } from "../languages";
+import type { FeedSource } from "../feedSources";
+import { apiGet, pagesOf, type RequestOptions, type WikiQueryResponse } from "./wikiApi";
+import { filterItemsOfClass } from "./wikidata";
+
+export interface FilmSuggestion {
+  pageid: string;
+  title: string;
+  displaytitle: string;
+  description?: string;
+  thumbnail?: string;
+}
+
+interface WikiSearchPage {
+  pageid: number;
+  title: string;
+  index: number;
+  description?: string;
+  thumbnail?: { source: string };
+  varianttitles?: Record<string, string>;
+  pageprops?: { wikibase_item?: string };
+}
+
+type WikiSearchResponse = WikiQueryResponse<WikiSearchPage>;
+
+/**
+ * Title prefix search restricted to the feed source's works (films by
+ * default). Wikipedia can't filter by topic across languages, so the matches
+ * are checked against their Wikidata item's "instance of" statements.
+ */
+export const searchFilms = async (
+  language: Language,
+  source: FeedSource,
+  query: string,
+  options: RequestOptions = {},
+  limit = 8
+): Promise<FilmSuggestion[]> => {
+  const data = await apiGet<WikiSearchResponse>(language.api, {
+    action: "query",
+    generator: "prefixsearch",
+    gpssearch: query,
+    gpsnamespace: "0",
+    gpslimit: "20",
+    prop: "pageimages|description|info|pageprops",
+    inprop: "varianttitles",
+    piprop: "thumbnail",
+    pithumbsize: "120",
+    pilimit: "20",
+    ppprop: "wikibase_item",
+    variant: language.id,
+  }, options);
+  const pages = pagesOf(data)
+    .filter((page) => page.pageprops?.wikibase_item)
+    .sort((a, b) => a.index - b.index);
+  if (pages.length === 0) return [];
+
+  const films = await filterItemsOfClass(
+    pages.map((page) => page.pageprops!.wikibase_item!),
+    source.classes,
+    options
+  );
+
+  return pages
+    .filter((page) => films.has(page.pageprops!.wikibase_item!))
+    .slice(0, limit)
+    .map((page) => ({
+      pageid: page.pageid.toString(),
+      title: page.title,
+      displaytitle: page.varianttitles?.[language.id] || page.title,
+      description: page.description,
+      thumbnail: page.thumbnail?.source,
+    }));
+};
@@ -0,0 +1,50 @@
+import { getWikiCode, type Language } from "../languages";
+
+const STORAGE_PREFIX = "seen:";
+
+// Oldest entries are dropped past this, roughly 50 KB per wiki
+const MAX_SEEN = 5000;
+
+// Page ids in the order they were seen, per wiki (zh variants share one)
+const seenCache = new Map<string, string[]>();
+
+const loadSeen = (wiki: string): string[] => {
+  const cached = seenCache.get(wiki);
+  if (cached) return cached;
+
+  let stored: string[] = [];
+  try {
+    stored = JSON.parse(localStorage.getItem(STORAGE_PREFIX + wiki) || "[]");
+  } catch {
+    // Corrupt entry, start over
+  }
+  seenCache.set(wiki, stored);
+  return stored;
+};
+
+export const getSeen = (language: Language): Set<string> =>
+  new Set(loadSeen(getWikiCode(language)));
+
+export const markSeen = (language: Language, pageids: string[]) => {
+  const wiki = getWikiCode(language);
+  const seen = loadSeen(wiki);
+  const known = new Set(seen);
+  const fresh = pageids.filter((pageid) => !known.has(pageid));
+  if (fresh.length === 0) return;
+
+  const updated = [...seen, ...fresh].slice(-MAX_SEEN);
+  seenCache.set(wiki, updated);
+  try {
+    localStorage.setItem(STORAGE_PREFIX + wiki, JSON.stringify(updated));
+  } catch {
+    // Storage full or unavailable, the in-memory copy still works
+  }
+};
+
+export const countSeen = (language: Language) => loadSeen(getWikiCode(language)).length;
+
+export const clearSeen = (language: Language) => {
+  const wiki = getWikiCode(language);
+  seenCache.set(wiki, []);
+  localStorage.removeItem(STORAGE_PREFIX + wiki);
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { findSimilarFilms } from "./similarFilms";
+import { fixtureBackend } from "./apiBackends";
+import { setApiBackend } from "./wikiApi";
+import { DEFAULT_FEED_SOURCE } from "../feedSources";
+import { LANGUAGES } from "../languages";
+import type { WikiArticle } from "../components/WikiCard";
+
+const SEED = { pageid: "30007", title: "The Matrix" } as WikiArticle;
+
+// Keyed by page id like the real API, with the search rank in `index`
+const RESULTS = [
+  { pageid: 101, title: "Dark City", index: 3 },
+  { pageid: 102, title: "The Matrix Reloaded", index: 1 },
+  { pageid: 103, title: "Equilibrium", index: 2 },
+];
+
+const film = (id: string) => [
+  id,
+  {
+    id,
+    claims: {
+      P31: [{ rank: "normal", mainsnak: { snaktype: "value", datavalue: { value: { id: "Q11424" } } } }],
+    },
+  },
+];
+
+describe("findSimilarFilms", () => {
+  it("lists the most similar films first", async () => {
+    setApiBackend(
+      fixtureBackend({
+        "en.wikipedia.org": [
+          {
+            params: { gsrsearch: "morelike:*" },
+            response: {
+              query: {
+                pages: Object.fromEntries(
+                  RESULTS.map((page) => [
+                    page.pageid,
+                    { ...page, pageprops: { wikibase_item: `Q${page.pageid}` } },
+                  ])
+                ),
+              },
+            },
+          },
+          { params: { prop: "categories" }, response: { query: { pages: {} } } },
+        ],
+        "www.wikidata.org": [
+          {
+            params: { action: "wbgetentities" },
+            response: { entities: Object.fromEntries(RESULTS.map((page) => film(`Q${page.pageid}`))) },
+          },
+        ],
+      })
+    );
+
+    const page = await findSimilarFilms(LANGUAGES[0], DEFAULT_FEED_SOURCE, SEED, 0, new Set());
+
+    expect(page.titles).toEqual(["The Matrix Reloaded", "Equilibrium", "Dark City"]);
+  });
+});
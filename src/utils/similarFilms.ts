@@ -0,0 +1,154 @@
+import type { Language } from "../languages";
+import type { FeedSource } from "../feedSources";
+import type { WikiArticle } from "../components/WikiCard";
+import { apiGet, pagesOf, type RequestOptions, type WikiQueryResponse } from "./wikiApi";
+import { filterItemsOfClass } from "./wikidata";
+import { pickRandom, shuffle, type Random } from "./random";
+
+interface WikiSimilarPage {
+  pageid: number;
+  title: string;
+  pageprops?: { wikibase_item?: string };
+  // Search rank, pages come back keyed by page id rather than in this order
+  index?: number;
+}
+
+type WikiSimilarResponse = WikiQueryResponse<WikiSimilarPage & { categories?: { title: string }[] }>;
+
+export interface SimilarFilmsPage {
+  titles: string[];
+  // Where the next morelike: page starts, null once results run out
+  nextOffset: number | null;
+}
+
+const PAGE_SIZE = 20;
+const CATEGORY_SAMPLE = 10;
+
+// Categories of each seed film, so paging through doesn't refetch them
+const seedCategories = new Map<string, string[]>();
+
+const getSeedCategories = async (
+  language: Language,
+  seed: WikiArticle,
+  options: RequestOptions
+) => {
+  const cacheKey = `${language.id}:${seed.pageid}`;
+  const cached = seedCategories.get(cacheKey);
+  if (cached) return cached;
+
+  const data = await apiGet<WikiSimilarResponse>(language.api, {
+    action: "query",
+    pageids: seed.pageid,
+    prop: "categories",
+    clshow: "!hidden",
+    cllimit: "max",
+  }, options);
+  const categories = (data.query?.pages?.[seed.pageid]?.categories || []).map(
+    (category) => category.title
+  );
+
+  seedCategories.set(cacheKey, categories);
+  return categories;
+};
+
+// CirrusSearch's "more like this" on the seed's text, most similar first
+const fetchMoreLike = async (
+  language: Language,
+  seed: WikiArticle,
+  offset: number,
+  options: RequestOptions
+) => {
+  const data = await apiGet<WikiSimilarResponse>(language.api, {
+    action: "query",
+    generator: "search",
+    gsrsearch: `morelike:${seed.title}`,
+    gsrnamespace: "0",
+    gsrlimit: String(PAGE_SIZE),
+    gsroffset: String(offset),
+    prop: "pageprops",
+    ppprop: "wikibase_item",
+  }, options);
+  return {
+    pages: pagesOf(data).sort((a, b) => (a.index ?? 0) - (b.index ?? 0)),
+    nextOffset: data.continue?.gsroffset !== undefined ? Number(data.continue.gsroffset) : null,
+  };
+};
+
+// A random handful of films from one of the seed's categories (genre, director, year...)
+const fetchCategorySiblings = async (
+  language: Language,
+  seed: WikiArticle,
+  random: Random,
+  options: RequestOptions
+) => {
+  const categories = await getSeedCategories(language, seed, options);
+  if (categories.length === 0) return [];
+
+  const category = pickRandom(categories, random);
+
+  const data = await apiGet<WikiSimilarResponse>(language.api, {
+    action: "query",
+    generator: "categorymembers",
+    gcmtitle: category,
+    gcmnamespace: "0",
+    gcmlimit: "200",
+    prop: "pageprops",
+    ppprop: "wikibase_item",
+  }, options);
+  return shuffle(pagesOf(data), random).slice(0, CATEGORY_SAMPLE);
+};
+
+/**
+ * One page of films related to the seed: CirrusSearch `morelike:` results
+ * mixed with films sharing one of its categories. Both sources return
+ * other pages too (actors, novels), so everything is checked against Wikidata
+ * for the feed source's classes.
+ * Once `morelike:` runs out (offset null) only category siblings are returned.
+ * `random` picks the siblings, pass a seeded one for a reproducible feed.
+ */
+export const findSimilarFilms = async (
+  language: Language,
+  source: FeedSource,
+  seed: WikiArticle,
+  offset: number | null,
+  excludeIds: Set<string>,
+  random: Random = Math.random,
+  options: RequestOptions = {}
+): Promise<SimilarFilmsPage> => {
+  const [moreLike, siblings] = await Promise.all([
+    offset !== null
+      ? fetchMoreLike(language, seed, offset, options)
+      : { pages: [], nextOffset: null },
+    fetchCategorySiblings(language, seed, random, options).catch((error) => {
+      if (options.signal?.aborted) throw error;
+      console.warn("Category siblings unavailable:", error);
+      return [];
+    }),
+  ]);
+
+  const candidates = Array.from(
+    new Map(
+      [...moreLike.pages, ...siblings]
+        .filter(
+          (page) =>
+            page.pageid.toString() !== seed.pageid &&
+            !excludeIds.has(page.pageid.toString()) &&
+            page.pageprops?.wikibase_item
+        )
+        .map((page) => [page.pageid, page])
+    ).values()
+  );
+
+  const films = await filterItemsOfClass(
+    candidates.map((page) => page.pageprops!.wikibase_item!),
+    source.classes,
+    options
+  );
+
+  return {
+    titles: candidates
+      .filter((page) => films.has(page.pageprops!.wikibase_item!))
+      .map((page) => page.title),
+    nextOffset: moreLike.nextOffset,
+  };
+};
@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { apiGet, setApiBackend, sparqlGet, WikiApiError } from "./wikiApi";
+import { fixtureBackend, type ApiFixture } from "./apiBackends";
+
+const API = "https://en.wikipedia.org/w/api.php?";
+const PARAMS = { action: "query", list: "categorymembers", cmtitle: "Category:1999 films" };
+const ANSWER = { query: { categorymembers: [{ pageid: 30007, title: "The Matrix" }] } };
+
+// Serves `failures` first, then the answer, counting every request made
+const useFixtures = (...failures: Omit<ApiFixture, "params">[]) => {
+  const backend = vi.fn(
+    fixtureBackend({
+      "en.wikipedia.org": [
+        ...failures.map((failure) => ({ times: 1, ...failure, params: { list: "categorymembers" } })),
+        { params: { list: "categorymembers" }, response: ANSWER },
+      ],
+    })
+  );
+  setApiBackend(backend);
+  return backend;
+};
+
+describe("apiGet", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("answers from a matching fixture", async () => {
+    const backend = useFixtures();
+
+    await expect(apiGet(API, PARAMS)).resolves.toEqual(ANSWER);
+    expect(backend).toHaveBeenCalledTimes(1);
+    expect(new URL(backend.mock.calls[0][0]).searchParams.get("maxlag")).toBe("5");
+  });
+
+  it("retries server errors", async () => {
+    const backend = useFixtures({ status: 503, response: {}, headers: { "Retry-After": "0" } });
+
+    await expect(apiGet(API, PARAMS)).resolves.toEqual(ANSWER);
+    expect(backend).toHaveBeenCalledTimes(2);
+  });
+
+  it("retries maxlag errors", async () => {
+    const backend = useFixtures({
+      response: { error: { code: "maxlag", info: "Waiting for a database server" } },
+      headers: { "Retry-After": "0" },
+    });
+
+    await expect(apiGet(API, PARAMS)).resolves.toEqual(ANSWER);
+    expect(backend).toHaveBeenCalledTimes(2);
+  });
+
+  it("waits as long as Retry-After says", async () => {
+    vi.useFakeTimers();
+    const backend = useFixtures({ status: 429, response: {}, headers: { "Retry-After": "3" } });
+
+    const result = apiGet(API, PARAMS);
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(backend).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toEqual(ANSWER);
+    expect(backend).toHaveBeenCalledTimes(2);
+  });
+
+  it("gives up after two retries", async () => {
+    const failure = { status: 503, response: {}, headers: { "Retry-After": "0" } };
+    const backend = useFixtures(failure, failure, failure);
+
+    await expect(apiGet(API, PARAMS)).rejects.toMatchObject({ code: "http-503" });
+    expect(backend).toHaveBeenCalledTimes(3);
+  });
+
+  it("gives up instead of waiting longer than 30 seconds", async () => {
+    const backend = useFixtures({ status: 429, response: {}, headers: { "Retry-After": "3600" } });
+
+    await expect(apiGet(API, PARAMS)).rejects.toMatchObject({ code: "http-429" });
+    expect(backend).toHaveBeenCalledTimes(1);
+  });
+
+  it("doesn't retry client errors or error answers", async () => {
+    const backend = useFixtures({ status: 404, response: {} });
+
+    await expect(apiGet(API, PARAMS)).rejects.toBeInstanceOf(WikiApiError);
+    await expect(apiGet(API, { action: "parse" })).rejects.toMatchObject({ code: "nofixture" });
+    expect(backend).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops waiting for a retry once aborted", async () => {
+    vi.useFakeTimers();
+    const backend = useFixtures({ status: 503, response: {}, headers: { "Retry-After": "20" } });
+    const controller = new AbortController();
+
+    const result = apiGet(API, PARAMS, { signal: controller.signal });
+    const rejected = expect(result).rejects.toThrow();
+    await vi.advanceTimersByTimeAsync(1000);
+    controller.abort();
+
+    await rejected;
+    expect(backend).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("sparqlGet", () => {
+  it("sends just the query, asking for JSON results", async () => {
+    const results = { head: { vars: [] }, results: { bindings: [] } };
+    const backend = vi.fn(
+      fixtureBackend({ "query.wikidata.org": [{ params: { query: "*" }, response: results }] })
+    );
+    setApiBackend(backend);
+
+    await expect(sparqlGet("https://query.wikidata.org/sparql?", "SELECT ?item {}")).resolves.toEqual(results);
+    const [url, init] = backend.mock.calls[0];
+    expect([...new URL(url).searchParams.keys()]).toEqual(["query"]);
+    expect(init.headers).toEqual({ Accept: "application/sparql-results+json" });
+  });
+});
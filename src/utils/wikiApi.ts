@@ -0,0 +1,198 @@
+/**
+ * Single client for every MediaWiki API request (Wikipedia and Wikidata),
+ * plus Wikidata Query Service lookups, which are queued and retried alike.
+ * Requests go through one queue with a concurrency cap, can be cancelled
+ * with an AbortSignal, ask to be turned away when the servers are lagging
+ * (`maxlag`) and wait as long as `Retry-After` says before trying again,
+ * up to MAX_RETRY_DELAY_MS; asked to wait longer, they give up.
+ * The HTTP layer itself is a swappable backend, see apiBackends.ts.
+ */
+
+// Performs one HTTP request, live fetch() unless fixtures or a mock server are in use
+export type ApiBackend = (url: string, init: RequestInit) => Promise<Response>;
+
+let backend: ApiBackend = (url, init) => fetch(url, init);
+
+export const setApiBackend = (next: ApiBackend) => {
+  backend = next;
+};
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  // Waits for every foreground request already queued, e.g. buffer prefetches
+  background?: boolean;
+}
+
+// Shape of action=query answers, `TQuery` adds whatever lists were asked for
+export interface WikiQueryResponse<TPage, TQuery = object> {
+  continue?: Record<string, string | number>;
+  query?: { pages?: Record<string, TPage> } & TQuery;
+}
+
+interface WikiErrorResponse {
+  error?: { code: string; info: string };
+}
+
+// An error answer from the API, or an HTTP status that isn't worth retrying
+export class WikiApiError extends Error {
+  code: string;
+
+  constructor(code: string, info: string) {
+    super(`${code}: ${info}`);
+    this.name = "WikiApiError";
+    this.code = code;
+  }
+}
+
+const MAX_CONCURRENT = 4;
+const MAX_RETRIES = 2;
+const BASE_DELAY_MS = 1000;
+// A longer Retry-After fails the request rather than keeping its caller waiting
+const MAX_RETRY_DELAY_MS = 30_000;
+// Seconds of database replication lag after which the API refuses requests
+const MAXLAG = "5";
+
+// Identifies the app to Wikimedia, browsers don't let scripts set User-Agent
+const USER_AGENT = `wiki_plot (${window.location.origin}${import.meta.env.BASE_URL})`;
+
+interface QueuedRequest {
+  background: boolean;
+  start: () => void;
+}
+
+const queue: QueuedRequest[] = [];
+let active = 0;
+
+const startNext = () => {
+  while (active < MAX_CONCURRENT && queue.length > 0) {
+    const foreground = queue.findIndex((request) => !request.background);
+    const [request] = queue.splice(foreground === -1 ? 0 : foreground, 1);
+    active++;
+    request.start();
+  }
+};
+
+const release = () => {
+  active--;
+  startNext();
+};
+
+// Resolves once a slot is free, the caller must release() it afterwards
+const acquire = (background: boolean, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      queue.splice(queue.indexOf(request), 1);
+      reject(signal!.reason);
+    };
+    const request: QueuedRequest = {
+      background,
+      start: () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      },
+    };
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+    queue.push(request);
+    startNext();
+  });
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Retry-After is either seconds or an HTTP date, fall back to exponential backoff
+const retryDelay = (response: Response, attempt: number) => {
+  const retryAfter = response.headers.get("Retry-After");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const ms = isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+    if (!isNaN(ms)) return Math.max(ms, 0);
+  }
+  return BASE_DELAY_MS * Math.pow(2, attempt);
+};
+
+// One GET through the queue, retried on throttling, server errors and network failures
+const request = async <T>(
+  url: string,
+  headers: Record<string, string>,
+  { signal, background = false }: RequestOptions
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    await acquire(background, signal);
+    let delay: number;
+
+    try {
+      const response = await backend(url, { signal, headers });
+
+      delay = retryDelay(response, attempt);
+      const canRetry = attempt < MAX_RETRIES && delay <= MAX_RETRY_DELAY_MS;
+
+      if (response.ok) {
+        const data: T & WikiErrorResponse = await response.json();
+        if (!data.error) return data;
+        if (data.error.code !== "maxlag" || !canRetry) {
+          throw new WikiApiError(data.error.code, data.error.info);
+        }
+      } else if (!(response.status === 429 || response.status >= 500) || !canRetry) {
+        // Only rate limiting and server errors are worth another try
+        throw new WikiApiError(`http-${response.status}`, response.statusText);
+      }
+    } catch (error) {
+      if (signal?.aborted || error instanceof WikiApiError || attempt === MAX_RETRIES) {
+        throw error;
+      }
+      // Network failure
+      delay = BASE_DELAY_MS * Math.pow(2, attempt);
+    } finally {
+      release();
+    }
+
+    await sleep(delay, signal);
+  }
+};
+
+/**
+ * GETs `api` (e.g. a LANGUAGES entry's `api`) with the given parameters and
+ * returns the parsed JSON. Throttling (429, maxlag) and server errors are
+ * retried; other failures and API error answers throw.
+ */
+export const apiGet = <T>(
+  api: string,
+  params: Record<string, string>,
+  options: RequestOptions = {}
+): Promise<T> =>
+  request<T>(
+    api + new URLSearchParams({ format: "json", origin: "*", maxlag: MAXLAG, ...params }),
+    { "Api-User-Agent": USER_AGENT },
+    options
+  );
+
+/**
+ * Runs a SPARQL query on a query service endpoint such as
+ * "https://query.wikidata.org/sparql?" and returns the JSON results. Shares
+ * the queue and retries of apiGet, without the MediaWiki-only parameters.
+ */
+export const sparqlGet = <T>(endpoint: string, query: string, options: RequestOptions = {}): Promise<T> =>
+  request<T>(
+    endpoint + new URLSearchParams({ query }),
+    { Accept: "application/sparql-results+json" },
+    options
+  );
+
+export const pagesOf = <TPage>(response: WikiQueryResponse<TPage>): TPage[] =>
+  Object.values(response.query?.pages || {});
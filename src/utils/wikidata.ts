@@ -0,0 +1,212 @@
+import { getWikiCode, type Language } from "../languages";
+import type { FilmMetadata } from "../components/WikiCard";
+import { apiGet, type RequestOptions } from "./wikiApi";
+
+const WIKIDATA_API = "https://www.wikidata.org/w/api.php?";
+
+// wbgetentities accepts at most 50 ids per request
+const BATCH_SIZE = 50;
+
+// Give up on enrichment rather than keep cards waiting
+const TIMEOUT_MS = 5000;
+
+const MAX_CAST = 3;
+const MAX_GENRES = 3;
+const MAX_COUNTRIES = 2;
+
+const MINUTE = "http://www.wikidata.org/entity/Q7727";
+const HOUR = "http://www.wikidata.org/entity/Q25235";
+
+interface WikidataClaim {
+  rank: "preferred" | "normal" | "deprecated";
+  mainsnak: {
+    snaktype: string;
+    datavalue?: {
+      value:
+        | string
+        | { id: string }
+        | { time: string }
+        | { amount: string; unit: string };
+    };
+  };
+}
+
+export interface WikidataEntity {
+  id: string;
+  claims?: Record<string, WikidataClaim[]>;
+  labels?: Record<string, { language: string; value: string }>;
+}
+
+interface WikidataEntitiesResponse {
+  entities?: Record<string, WikidataEntity>;
+}
+
+/**
+ * Runs `request` with a signal that aborts after `ms`, or earlier when the
+ * caller's own signal does. The timer is cleared once the request settles.
+ */
+const withTimeout = async <T>(
+  request: (signal: AbortSignal) => Promise<T>,
+  ms: number,
+  signal?: AbortSignal
+): Promise<T> => {
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () => controller.abort(new Error(`Wikidata timed out after ${ms}ms`)),
+    ms
+  );
+  const onAbort = () => controller.abort(signal!.reason);
+  if (signal?.aborted) onAbort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    return await request(controller.signal);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+};
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+export const fetchEntities = async (
+  ids: string[],
+  params: Record<string, string>,
+  options: RequestOptions = {}
+): Promise<Record<string, WikidataEntity>> => {
+  const responses = await Promise.all(
+    chunk([...new Set(ids)], BATCH_SIZE).map(async (batch) => {
+      const data = await apiGet<WikidataEntitiesResponse>(WIKIDATA_API, {
+        action: "wbgetentities",
+        ids: batch.join("|"),
+        ...params,
+      }, options);
+      return data.entities || {};
+    })
+  );
+  return Object.assign({}, ...responses);
+};
+
+// Values of a property, skipping deprecated statements and "no value" snaks
+export const claimValues = (entity: WikidataEntity, property: string) =>
+  (entity.claims?.[property] || [])
+    .filter((claim) => claim.rank !== "deprecated" && claim.mainsnak.datavalue)
+    .map((claim) => claim.mainsnak.datavalue!.value);
+
+/**
+ * The subset of items that are an instance (P31) of one of `classes`, e.g. a
+ * feed source's films, for searches that also return people, places...
+ */
+export const filterItemsOfClass = async (
+  ids: string[],
+  classes: string[],
+  options: RequestOptions = {}
+): Promise<Set<string>> => {
+  if (ids.length === 0) return new Set();
+
+  const entities = await fetchEntities(ids, { props: "claims" }, options);
+  return new Set(
+    Object.values(entities)
+      .filter((entity) =>
+        claimValues(entity, "P31").some((value) =>
+          classes.includes((value as { id: string }).id)
+        )
+      )
+      .map((entity) => entity.id)
+  );
+};
+
+const entityIds = (entity: WikidataEntity, property: string, limit: number) =>
+  claimValues(entity, property)
+    .map((value) => (value as { id: string }).id)
+    .filter(Boolean)
+    .slice(0, limit);
+
+const getReleaseYear = (entity: WikidataEntity) => {
+  const years = claimValues(entity, "P577")
+    .map((value) => parseInt((value as { time: string }).time.slice(1, 5), 10))
+    .filter((year) => !isNaN(year));
+  return years.length ? Math.min(...years) : undefined;
+};
+
+const getRuntime = (entity: WikidataEntity) => {
+  const [duration] = claimValues(entity, "P2047") as { amount: string; unit: string }[];
+  if (!duration) return undefined;
+
+  const amount = parseFloat(duration.amount);
+  if (duration.unit === MINUTE) return Math.round(amount);
+  if (duration.unit === HOUR) return Math.round(amount * 60);
+  return undefined;
+};
+
+/**
+ * Looks up director, cast, release year, runtime, genres, country, IMDb ID and
+ * poster for the given film items. Two rounds of batched requests: claims of the films,
+ * then labels of everything they reference in the reader's language. Aborts
+ * and rejects when Wikidata is slower than TIMEOUT_MS so callers can skip enrichment.
+ */
+export const fetchFilmMetadata = (
+  language: Language,
+  ids: string[],
+  options: RequestOptions = {}
+): Promise<Record<string, FilmMetadata>> =>
+  withTimeout(
+    async (signal) => {
+      const films = await fetchEntities(ids, { props: "claims" }, { ...options, signal });
+
+      const referenced = Object.values(films).flatMap((film) => [
+        ...entityIds(film, "P57", 1),
+        ...entityIds(film, "P161", MAX_CAST),
+        ...entityIds(film, "P136", MAX_GENRES),
+        ...entityIds(film, "P495", MAX_COUNTRIES),
+      ]);
+
+      const labelLanguages = [...new Set([language.id, getWikiCode(language), "en"])];
+      const labelEntities = referenced.length
+        ? await fetchEntities(referenced, {
+            props: "labels",
+            languages: labelLanguages.join("|"),
+          }, { ...options, signal })
+        : {};
+
+      const label = (id: string) => {
+        const labels = labelEntities[id]?.labels || {};
+        const code = labelLanguages.find((lang) => labels[lang]);
+        return code ? labels[code].value : undefined;
+      };
+      const labelsOf = (film: WikidataEntity, property: string, limit: number) =>
+        entityIds(film, property, limit)
+          .map(label)
+          .filter((value): value is string => !!value);
+
+      const metadata: Record<string, FilmMetadata> = {};
+      Object.values(films).forEach((film) => {
+        if (!film.claims) return;
+        const [imdbId] = claimValues(film, "P345") as string[];
+        const [poster] = [
+          ...claimValues(film, "P3383"),
+          ...claimValues(film, "P18"),
+        ] as string[];
+
+        metadata[film.id] = {
+          director: labelsOf(film, "P57", 1)[0],
+          cast: labelsOf(film, "P161", MAX_CAST),
+          releaseYear: getReleaseYear(film),
+          runtime: getRuntime(film),
+          genres: labelsOf(film, "P136", MAX_GENRES),
+          countries: labelsOf(film, "P495", MAX_COUNTRIES),
+          imdbId,
+          poster,
+        };
+      });
+      return metadata;
+    },
+    TIMEOUT_MS,
+    options.signal
+  );
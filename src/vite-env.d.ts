@@ -1 +1,7 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // "fixtures" or "mock" to run without live Wikipedia, see utils/apiBackends.ts
+  readonly VITE_API_BACKEND?: string;
+  readonly VITE_MOCK_API_URL?: string;
+}
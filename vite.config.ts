@@ -1,8 +1,42 @@
-import { defineConfig } from 'vite'
+/// <reference types="vitest/config" />
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// GitHub Pages answers unknown paths with 404.html, so serve the app there
+// too and let it handle client-side routes like /film/en/12345
+const spaFallback = (): Plugin => ({
+  name: 'spa-fallback',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_, bundle) {
+    const index = bundle['index.html']
+    if (index?.type === 'asset') {
+      this.emitFile({ type: 'asset', fileName: '404.html', source: index.source })
+    }
+  },
+})
+
+// Lists the hashed JS, CSS and other build assets for public/sw.js to
+// precache on install, so the app works offline after the first visit
+const precacheManifest = (): Plugin => ({
+  name: 'precache-manifest',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_, bundle) {
+    const assets = Object.keys(bundle).filter((fileName) => fileName.startsWith('assets/'))
+    this.emitFile({
+      type: 'asset',
+      fileName: 'precache-manifest.json',
+      source: JSON.stringify(assets),
+    })
+  },
+})
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), spaFallback(), precacheManifest()],
   base: '/wiki_plot/',
+  test: {
+    environment: 'jsdom',
+  },
 })